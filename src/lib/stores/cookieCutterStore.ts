@@ -1,6 +1,8 @@
 import { writable, derived } from 'svelte/store';
 import type { CookieCutterParams, CookieCutterModel, PrintabilityCheck } from '../types/CookieCutter';
 import { DEFAULT_PARAMS } from '../types/CookieCutter';
+import type { MeshValidationReport } from '../utils/meshRepair';
+import { getDoughPreset } from '../utils/doughPresets';
 
 // Parameters store
 export const params = writable<CookieCutterParams>(DEFAULT_PARAMS);
@@ -20,6 +22,9 @@ export const isProcessing = writable<boolean>(false);
 // Error state
 export const error = writable<string | null>(null);
 
+// Mesh validation report for the current model
+export const meshReport = writable<MeshValidationReport | null>(null);
+
 // Printability check
 export const printability = derived(
   [params],
@@ -44,26 +49,49 @@ function checkPrintability(params: CookieCutterParams): PrintabilityCheck {
     warnings.push('Very thick walls will use more material and take longer to print.');
   }
 
-  // Check cutting height
-  if (params.cuttingHeight < 8) {
-    warnings.push('Cutting height is quite shallow. May not work well with thick dough.');
-  } else if (params.cuttingHeight > 20) {
-    warnings.push('Very tall cutting edge. Ensure your dough is thick enough.');
+  // Check cutting height and taper against the dough being cut
+  const dough = getDoughPreset(params.doughType);
+  if (params.cuttingHeight < params.doughThickness + dough.limits.minClearance) {
+    warnings.push(`Cutting height is quite shallow for ${params.doughThickness}mm of ${dough.name.toLowerCase()}.`);
+  } else if (params.cuttingHeight > dough.limits.maxCuttingHeight) {
+    warnings.push(`Very tall cutting edge for ${dough.name.toLowerCase()}. It only adds material.`);
   }
 
-  // Check taper angle
-  if (params.taperAngle < 3) {
+  if (params.taperAngle < dough.limits.draftAngle) {
     warnings.push('Low taper angle may make cookie removal difficult.');
-  } else if (params.taperAngle > 15) {
+  } else if (params.taperAngle > dough.limits.maxTaperAngle) {
     warnings.push('High taper angle may make the cutter structurally weak.');
   }
 
+  // Check cutting edge and rim
+  if (params.edgeThickness < 0.4) {
+    warnings.push('Cutting edge is thinner than a 0.4mm nozzle line and may not print.');
+  }
+
+  if (params.totalHeight <= params.cuttingHeight) {
+    warnings.push('Total height does not exceed cutting height, so the cutter has no reinforcing rim.');
+  }
+
+  // Check imprint details
+  if (params.detailMode !== 'none' || params.outlineMode === 'border') {
+    if (params.doughThickness >= params.cuttingHeight) {
+      warnings.push('Dough is as thick as the cutting height, so the cutter will not cut all the way through.');
+    }
+    if (params.imprintDepth >= params.doughThickness) {
+      warnings.push('Imprint depth reaches through the dough; detail ribs will cut instead of marking.');
+    }
+  }
+
   // Add recommendations
   if (params.wallThickness === 0.8) {
     recommendations.push('Using 0.4mm nozzle: Set wall line count to 2 in slicer');
   }
 
-  recommendations.push('Print upside down (cutting edge facing up)');
+  if (params.mode === 'cutter' && !params.printUpsideDown) {
+    recommendations.push('Print upside down (cutting edge facing up)');
+  }
+  recommendations.push(`Draft for ${dough.name.toLowerCase()}: at least ${dough.limits.draftAngle}° of taper`);
+  recommendations.push(...dough.recommendations);
   recommendations.push('Use PLA or PETG filament');
   recommendations.push('Layer height: 0.2mm recommended');
   recommendations.push('Infill: 20% with 2-3 perimeters');
@@ -0,0 +1,94 @@
+import { writable, derived } from 'svelte/store';
+import type { AlignMode, DesignScene, DistributeAxis, SceneElement } from '../types/Scene';
+import { DEFAULT_SCENE } from '../types/Scene';
+import { alignElements, distributeElements } from '../utils/designScene';
+
+function createSceneStore() {
+  const scene = writable<DesignScene>(DEFAULT_SCENE);
+  const selection = writable<string[]>([]);
+
+  return {
+    subscribe: scene.subscribe,
+    selection: { subscribe: selection.subscribe },
+
+    /**
+     * Add an element on top and select it
+     */
+    addElement: (element: SceneElement) => {
+      scene.update(s => ({ ...s, elements: [...s.elements, element] }));
+      selection.set([element.id]);
+    },
+
+    /**
+     * Replace an element's fields
+     */
+    updateElement: (id: string, changes: Partial<Omit<SceneElement, 'id'>>) => {
+      scene.update(s => ({
+        ...s,
+        elements: s.elements.map(element => (element.id === id ? { ...element, ...changes } : element)),
+      }));
+    },
+
+    /**
+     * Remove elements and drop them from the selection
+     */
+    removeElements: (ids: string[]) => {
+      scene.update(s => ({ ...s, elements: s.elements.filter(element => !ids.includes(element.id)) }));
+      selection.update(selected => selected.filter(id => !ids.includes(id)));
+    },
+
+    /**
+     * Move an element up (towards the top) or down the drawing order
+     */
+    reorderElement: (id: string, offset: number) => {
+      scene.update(s => {
+        const index = s.elements.findIndex(element => element.id === id);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= s.elements.length) return s;
+
+        const elements = [...s.elements];
+        [elements[index], elements[target]] = [elements[target], elements[index]];
+        return { ...s, elements };
+      });
+    },
+
+    /**
+     * Select elements; `extend` toggles them in the current selection
+     */
+    select: (ids: string[], extend = false) => {
+      selection.update(selected => {
+        if (!extend) return ids;
+        const toggled = selected.filter(id => !ids.includes(id));
+        return [...toggled, ...ids.filter(id => !selected.includes(id))];
+      });
+    },
+
+    align: (ids: string[], mode: AlignMode) => {
+      scene.update(s => alignElements(s, ids, mode));
+    },
+
+    distribute: (ids: string[], axis: DistributeAxis) => {
+      scene.update(s => distributeElements(s, ids, axis));
+    },
+
+    setArtboard: (width: number, height: number) => {
+      scene.update(s => ({ ...s, width, height }));
+    },
+
+    /**
+     * Remove every element
+     */
+    clear: () => {
+      scene.set(DEFAULT_SCENE);
+      selection.set([]);
+    }
+  };
+}
+
+export const sceneStore = createSceneStore();
+
+// Selected elements, in drawing order
+export const selectedElements = derived(
+  [sceneStore, sceneStore.selection],
+  ([$scene, $selection]) => $scene.elements.filter(element => $selection.includes(element.id))
+);
@@ -4,19 +4,41 @@ export interface CookieCutterParams {
   cuttingHeight: number; // in mm (10-15)
   totalHeight: number; // in mm (15-25)
   taperAngle: number; // in degrees (5-10)
-  scale: number; // scaling factor
+  edgeThickness: number; // in mm (0.4-0.8), thickness of the cutting edge
+  scale: number; // scaling factor, used while no target size is set
+  targetWidth: number; // in mm, outline width to size the design to (0 = use scale)
+  targetHeight: number; // in mm, outline height to size the design to (0 = use scale)
+  lockAspect: boolean; // keep the design's proportions when sizing
+  svgDpi: number; // pixels per inch for SVG sizes given in px
+  fitToPlate: boolean; // shrink designs that do not fit the build plate
   handleStyle: HandleStyle;
   handleHeight: number; // in mm (5-10)
+  handleWidth: number; // in mm, width of the flange lip or bridge bars
+  handleBarCount: number; // number of bars for the multi-bridge handle
   enableHandle: boolean;
+  detailMode: DetailMode; // how interior detail paths are told apart from the outline
+  outlineMode: OutlineMode; // cut along the design's own paths, or around all of it
+  borderMargin: number; // in mm, space a border outline leaves around the design
+  borderSmoothing: number; // in mm, a border outline bridges notches narrower than twice this
+  imprintDepth: number; // in mm, how far detail ribs press into the dough
+  doughType: DoughType; // material being cut, which the dough presets and checks assume
+  doughThickness: number; // in mm, rolled dough thickness
   enableEmbossing: boolean;
   embossDepth: number; // in mm (2-5)
   buildPlateSize: number; // in mm (build plate diameter/size)
+  printUpsideDown: boolean; // print cutters with the cutting edge up and the rim on the bed
   mode: 'cutter' | 'stamp'; // Mode: cutter or stamp
   stampDepth: number; // in mm (depth of stamp relief)
   stampBase: boolean; // Add base plate for stamp
 }
 
-export type HandleStyle = 'round' | 'chamfered' | 'rectangular' | 'flat' | 'none';
+export type HandleStyle = 'round' | 'chamfered' | 'rectangular' | 'flat' | 'bridge' | 'multiBridge' | 'none';
+
+export type DetailMode = 'none' | 'nesting' | 'color' | 'stroke' | 'id';
+
+export type OutlineMode = 'paths' | 'border';
+
+export type DoughType = 'sugarCookie' | 'fondant' | 'gingerbread' | 'polymerClay';
 
 export interface Point2D {
   x: number;
@@ -51,13 +73,29 @@ export const DEFAULT_PARAMS: CookieCutterParams = {
   cuttingHeight: 12,
   totalHeight: 20,
   taperAngle: 7,
+  edgeThickness: 0.4,
   scale: 1.0,
+  targetWidth: 0,
+  targetHeight: 0,
+  lockAspect: true,
+  svgDpi: 96,
+  fitToPlate: false,
   handleStyle: 'round',
   handleHeight: 8,
+  handleWidth: 8,
+  handleBarCount: 2,
   enableHandle: true,
+  detailMode: 'none',
+  outlineMode: 'paths',
+  borderMargin: 5,
+  borderSmoothing: 2,
+  imprintDepth: 2,
+  doughType: 'sugarCookie',
+  doughThickness: 6,
   enableEmbossing: false,
   embossDepth: 2.5,
   buildPlateSize: 200, // 200mm = 20cm (common for many 3D printers)
+  printUpsideDown: true,
   mode: 'cutter',
   stampDepth: 3.0,
   stampBase: true,
@@ -0,0 +1,55 @@
+/**
+ * Where a design element's geometry came from
+ */
+export type SceneElementSource =
+  | { type: 'library'; shapeId: string }
+  | { type: 'upload'; fileName: string }
+  | { type: 'bezier' }
+  | { type: 'text'; text: string }
+  | { type: 'design' }; // the design that was loaded before the layout
+
+/**
+ * How an element ends up in the cutter: `outline` elements are cut,
+ * `detail` elements become imprint lines
+ */
+export type SceneElementRole = 'outline' | 'detail';
+
+/**
+ * Placement of an element on the artboard, in millimetres. The centre of
+ * the element's own bounds lands on (x, y).
+ */
+export interface SceneTransform {
+  x: number;
+  y: number;
+  rotation: number; // degrees, clockwise on screen
+  scale: number;
+}
+
+export interface SceneElement {
+  id: string;
+  name: string;
+  source: SceneElementSource;
+  svgData: string;
+  transform: SceneTransform;
+  role: SceneElementRole;
+  visible: boolean;
+}
+
+/**
+ * A layout of several design elements, drawn bottom to top
+ */
+export interface DesignScene {
+  width: number; // artboard size in mm
+  height: number;
+  elements: SceneElement[];
+}
+
+export type AlignMode = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export const DEFAULT_SCENE: DesignScene = {
+  width: 100,
+  height: 100,
+  elements: [],
+};
@@ -0,0 +1,35 @@
+/**
+ * The parts of opentype.js (bundled with three.js) that the text tools use
+ */
+declare module 'three/examples/jsm/libs/opentype.module.js' {
+  export interface PathCommand {
+    type: 'M' | 'L' | 'Q' | 'C' | 'Z';
+    x?: number;
+    y?: number;
+    x1?: number;
+    y1?: number;
+    x2?: number;
+    y2?: number;
+  }
+
+  export interface Glyph {
+    index: number;
+    name: string | null;
+    unicode?: number;
+    advanceWidth?: number;
+    path: { commands: PathCommand[] };
+  }
+
+  export interface Font {
+    unitsPerEm: number;
+    ascender: number;
+    descender: number;
+    names: { fontFamily?: Record<string, string>; fontSubfamily?: Record<string, string> };
+    tables: { os2?: { sCapHeight?: number } };
+    charToGlyph(char: string): Glyph;
+    hasChar(char: string): boolean;
+    getKerningValue(leftGlyph: Glyph, rightGlyph: Glyph): number;
+  }
+
+  export function parse(buffer: ArrayBuffer): Font;
+}
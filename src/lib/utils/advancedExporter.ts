@@ -2,8 +2,13 @@ import * as THREE from 'three';
 import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
 import type { Mesh, Group } from 'three';
 import type { CookieCutterParams } from '../types/CookieCutter';
+import { planToolpaths } from './slicer';
+import { getBedRotation, getBedTransform, isPrintedUpsideDown, orientForPrint } from './bedTransform';
+import type { TaskOptions } from './taskControl';
+import { getMaterialById } from './materialManager';
+import { createZip, type ZipEntry } from './zipWriter';
 
-export type ExportFormat = 'stl' | 'obj' | '3mf' | 'gcode';
+export type ExportFormat = 'stl' | 'obj' | '3mf' | 'gcode' | 'svg' | 'dxf';
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -25,138 +30,433 @@ export interface PrinterProfile {
 }
 
 /**
- * Export to OBJ format
+ * Export to OBJ format. Pass the object through `orientForPrint` first so it
+ * arrives Z-up and flat on the bed.
  */
 export function exportToOBJ(object: Mesh | Group, filename: string): void {
-  const exporter = new OBJExporter();
-  const result = exporter.parse(object);
+  downloadFile(serializeOBJ(object), filename, 'text/plain');
+}
 
-  downloadFile(result, filename, 'text/plain');
+/**
+ * Serialize a mesh or group to OBJ text
+ */
+export function serializeOBJ(object: Mesh | Group): string {
+  return new OBJExporter().parse(object);
 }
 
 /**
- * Export to 3MF format (simplified XML-based format)
+ * Edge length of the package thumbnail, in pixels
  */
-export function exportTo3MF(object: Mesh | Group, filename: string, params: CookieCutterParams): void {
-  const vertices: number[] = [];
-  const triangles: number[][] = [];
-  let vertexOffset = 0;
+const THUMBNAIL_SIZE = 256;
 
-  // Collect all vertices and triangles
-  object.traverse((child) => {
-    if (child instanceof THREE.Mesh && child.geometry) {
-      const geometry = child.geometry;
-      const positionAttribute = geometry.getAttribute('position');
+interface ThreeMFMaterial {
+  name: string;
+  color: string; // #RRGGBB
+}
 
-      if (!positionAttribute) return;
+interface ThreeMFObject {
+  name: string;
+  vertices: number[];
+  triangles: number[][]; // [v1, v2, v3, material index]
+  transform: THREE.Matrix4; // build item transform
+}
+
+/**
+ * Export to a 3MF package.
+ *
+ * Every cutter (or batch item) becomes its own object, positioned by its
+ * build item transform, with base materials taken from the mesh materials.
+ */
+export async function exportTo3MF(
+  object: Mesh | Group,
+  filename: string,
+  params: CookieCutterParams
+): Promise<void> {
+  downloadFile(await build3MFPackage(object, params), filename, 'model/3mf');
+}
+
+/**
+ * Build the 3MF package (a ZIP archive) for an object
+ */
+export async function build3MFPackage(
+  object: Mesh | Group,
+  params: CookieCutterParams
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { objects, materials } = collect3MFObjects(object, params.buildPlateSize, isPrintedUpsideDown(params));
+  const thumbnail = await render3MFThumbnail(objects, materials);
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: generate3MFContentTypes() },
+    { name: '_rels/.rels', data: generate3MFRelationships(thumbnail !== null) },
+    { name: '3D/3dmodel.model', data: generate3MFContent(objects, materials, params) },
+  ];
+  if (thumbnail) {
+    entries.push({ name: 'Metadata/thumbnail.png', data: thumbnail });
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Split an object into 3MF objects and gather their materials.
+ *
+ * A group of groups (a batch) yields one object per child, anything else is
+ * a single object. Vertices stay in the item's own frame, turned the way
+ * the part sits on the bed; the item's placement goes into the build
+ * transform, lifted onto the plate and centered on it.
+ */
+function collect3MFObjects(
+  object: Mesh | Group,
+  plateSize: number,
+  upsideDown: boolean
+): { objects: ThreeMFObject[]; materials: ThreeMFMaterial[] } {
+  object.updateMatrixWorld(true);
+
+  const items = object instanceof THREE.Group && object.children.some(child => child instanceof THREE.Group)
+    ? object.children
+    : [object];
+
+  const materials: ThreeMFMaterial[] = [];
+  const materialIndex = (mesh: THREE.Mesh): number => {
+    const material = describeMaterial(mesh);
+    let index = materials.findIndex(m => m.name === material.name && m.color === material.color);
+    if (index < 0) {
+      index = materials.push(material) - 1;
+    }
+    return index;
+  };
+
+  // Sit the whole build on the plate, centered
+  const bedTransform = getBedTransform(object, upsideDown, { x: plateSize / 2, y: plateSize / 2 });
+  const toBed = getBedRotation(upsideDown);
+  const fromBed = toBed.clone().invert();
+
+  const objects: ThreeMFObject[] = [];
+  for (const item of items) {
+    const itemInverse = item.matrixWorld.clone().invert();
+    const vertices: number[] = [];
+    const triangles: number[][] = [];
+    let vertexOffset = 0;
+
+    item.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.geometry) return;
 
-      const worldMatrix = child.matrixWorld;
+      const positionAttribute = child.geometry.getAttribute('position');
+      if (!positionAttribute) return;
 
-      // Get vertices
+      // Mesh to item frame, then turned the way it sits on the bed
+      const toItem = toBed.clone().multiply(itemInverse).multiply(child.matrixWorld);
+      const vertex = new THREE.Vector3();
       for (let i = 0; i < positionAttribute.count; i++) {
-        const vertex = new THREE.Vector3(
-          positionAttribute.getX(i),
-          positionAttribute.getY(i),
-          positionAttribute.getZ(i)
-        );
-        vertex.applyMatrix4(worldMatrix);
+        vertex.fromBufferAttribute(positionAttribute, i).applyMatrix4(toItem);
         vertices.push(vertex.x, vertex.y, vertex.z);
       }
 
-      // Get triangles
-      const index = geometry.index;
-      if (index) {
-        for (let i = 0; i < index.count; i += 3) {
-          triangles.push([
-            index.getX(i) + vertexOffset,
-            index.getX(i + 1) + vertexOffset,
-            index.getX(i + 2) + vertexOffset
-          ]);
-        }
-      } else {
-        for (let i = 0; i < positionAttribute.count; i += 3) {
-          triangles.push([
-            i + vertexOffset,
-            i + 1 + vertexOffset,
-            i + 2 + vertexOffset
-          ]);
-        }
+      const material = materialIndex(child);
+      const index = child.geometry.index;
+      const triangleCount = index ? index.count / 3 : positionAttribute.count / 3;
+      for (let i = 0; i < triangleCount; i++) {
+        const a = index ? index.getX(i * 3) : i * 3;
+        const b = index ? index.getX(i * 3 + 1) : i * 3 + 1;
+        const c = index ? index.getX(i * 3 + 2) : i * 3 + 2;
+
+        // 3MF rejects triangles that reuse a vertex
+        if (a === b || b === c || a === c) continue;
+        triangles.push([a + vertexOffset, b + vertexOffset, c + vertexOffset, material]);
       }
 
       vertexOffset += positionAttribute.count;
+    });
+
+    if (triangles.length === 0) continue;
+
+    objects.push({
+      name: item.name || `Cookie Cutter ${objects.length + 1}`,
+      vertices,
+      triangles,
+      transform: bedTransform.clone().multiply(item.matrixWorld).multiply(fromBed),
+    });
+  }
+
+  return { objects, materials };
+}
+
+/**
+ * Name and color of a mesh's material, preferring its material preset
+ */
+function describeMaterial(mesh: THREE.Mesh): ThreeMFMaterial {
+  const preset = mesh.userData.materialId ? getMaterialById(mesh.userData.materialId) : undefined;
+  if (preset) {
+    return { name: preset.name, color: new THREE.Color(preset.color).getHexString().toUpperCase() };
+  }
+
+  const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+  const color = material && 'color' in material && material.color instanceof THREE.Color
+    ? material.color.getHexString().toUpperCase()
+    : 'FFA726';
+  return { name: `Color #${color}`, color };
+}
+
+/**
+ * Draw a top-down view of the build as a PNG, or null without a 2D canvas.
+ * Workers draw on an OffscreenCanvas.
+ */
+async function render3MFThumbnail(
+  objects: ThreeMFObject[],
+  materials: ThreeMFMaterial[]
+): Promise<Uint8Array | null> {
+  let canvas: OffscreenCanvas | HTMLCanvasElement;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  } else if (typeof document !== 'undefined') {
+    canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_SIZE;
+    canvas.height = THUMBNAIL_SIZE;
+  } else {
+    return null;
+  }
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) return null;
+
+  // Gather triangles in plate coordinates, lowest first so tops are drawn last
+  const faces: { points: THREE.Vector3[]; shade: number; material: number }[] = [];
+  const box = new THREE.Box2();
+  for (const { vertices, triangles, transform } of objects) {
+    const point = (v: number) =>
+      new THREE.Vector3(vertices[v * 3], vertices[v * 3 + 1], vertices[v * 3 + 2]).applyMatrix4(transform);
+
+    for (const [a, b, c, material] of triangles) {
+      const points = [point(a), point(b), point(c)];
+      const normal = new THREE.Triangle(...points).getNormal(new THREE.Vector3());
+      faces.push({ points, shade: 0.55 + 0.45 * Math.abs(normal.z), material });
+      points.forEach(p => box.expandByPoint(new THREE.Vector2(p.x, p.y)));
     }
-  });
+  }
+  if (faces.length === 0) return null;
+  faces.sort((f, g) => Math.max(...f.points.map(p => p.z)) - Math.max(...g.points.map(p => p.z)));
+
+  const size = box.getSize(new THREE.Vector2());
+  const scale = (THUMBNAIL_SIZE * 0.9) / Math.max(size.x, size.y, 1);
+  const center = box.getCenter(new THREE.Vector2());
+  const project = (p: THREE.Vector3) => [
+    THUMBNAIL_SIZE / 2 + (p.x - center.x) * scale,
+    THUMBNAIL_SIZE / 2 - (p.y - center.y) * scale,
+  ];
 
-  // Generate 3MF XML
-  const xml = generate3MFContent(vertices, triangles, params);
+  for (const { points, shade, material } of faces) {
+    const color = new THREE.Color(`#${materials[material].color}`).multiplyScalar(shade);
+    context.fillStyle = `#${color.getHexString()}`;
+    context.beginPath();
+    points.map(project).forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+    context.closePath();
+    context.fill();
+  }
 
-  downloadFile(xml, filename, 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml');
+  const blob = canvas instanceof HTMLCanvasElement
+    ? await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    : await canvas.convertToBlob({ type: 'image/png' });
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
+
+/**
+ * [Content_Types].xml of the 3MF package
+ */
+function generate3MFContentTypes(): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml" />
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml" />
+  <Default Extension="png" ContentType="image/png" />
+</Types>`;
+}
+
+/**
+ * _rels/.rels pointing at the model and, if present, the thumbnail
+ */
+function generate3MFRelationships(hasThumbnail: boolean): string {
+  const thumbnail = hasThumbnail
+    ? '\n  <Relationship Target="/Metadata/thumbnail.png" Id="rel1" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/thumbnail" />'
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel" />${thumbnail}
+</Relationships>`;
 }
 
 /**
  * Generate 3MF XML content
  */
 function generate3MFContent(
-  vertices: number[],
-  triangles: number[][],
+  objects: ThreeMFObject[],
+  materials: ThreeMFMaterial[],
   params: CookieCutterParams
 ): string {
-  let vertexData = '';
-  for (let i = 0; i < vertices.length; i += 3) {
-    vertexData += `    <vertex x="${vertices[i].toFixed(3)}" y="${vertices[i + 1].toFixed(3)}" z="${vertices[i + 2].toFixed(3)}" />\n`;
-  }
+  // Base materials take resource id 1, objects follow
+  const materialData = materials
+    .map(m => `      <base name="${escapeXml(m.name)}" displaycolor="#${m.color}FF" />`)
+    .join('\n');
 
-  let triangleData = '';
-  for (const triangle of triangles) {
-    triangleData += `    <triangle v1="${triangle[0]}" v2="${triangle[1]}" v3="${triangle[2]}" />\n`;
-  }
+  const objectData = objects.map((object, i) => {
+    const defaultMaterial = object.triangles[0][3];
+
+    let vertexData = '';
+    for (let v = 0; v < object.vertices.length; v += 3) {
+      vertexData += `          <vertex x="${object.vertices[v].toFixed(4)}" y="${object.vertices[v + 1].toFixed(4)}" z="${object.vertices[v + 2].toFixed(4)}" />\n`;
+    }
+
+    let triangleData = '';
+    for (const [v1, v2, v3, material] of object.triangles) {
+      const property = material !== defaultMaterial ? ` pid="1" p1="${material}"` : '';
+      triangleData += `          <triangle v1="${v1}" v2="${v2}" v3="${v3}"${property} />\n`;
+    }
+
+    return `    <object id="${i + 2}" type="model" name="${escapeXml(object.name)}" pid="1" pindex="${defaultMaterial}">
+      <mesh>
+        <vertices>
+${vertexData}        </vertices>
+        <triangles>
+${triangleData}        </triangles>
+      </mesh>
+    </object>`;
+  }).join('\n');
+
+  const itemData = objects.map((object, i) => {
+    const e = object.transform.elements;
+    const transform = [0, 1, 2, 4, 5, 6, 8, 9, 10, 12, 13, 14].map(k => +e[k].toFixed(6)).join(' ');
+    return `    <item objectid="${i + 2}" transform="${transform}" />`;
+  }).join('\n');
+
+  const description = `Custom 3D-printable cookie cutter (wall ${params.wallThickness}mm, cutting height ${params.cuttingHeight}mm)`;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
   <metadata name="Title">Cookie Cutter</metadata>
   <metadata name="Designer">Claude Code - Cookie Cutter Designer</metadata>
-  <metadata name="Description">Custom 3D-printable cookie cutter</metadata>
-  <metadata name="WallThickness">${params.wallThickness}</metadata>
-  <metadata name="CuttingHeight">${params.cuttingHeight}</metadata>
+  <metadata name="Description">${escapeXml(description)}</metadata>
+  <metadata name="Application">Cookie Cutter Designer</metadata>
+  <metadata name="CreationDate">${new Date().toISOString().slice(0, 10)}</metadata>
   <resources>
-    <object id="1" type="model">
-      <mesh>
-        <vertices>
-${vertexData}
-        </vertices>
-        <triangles>
-${triangleData}
-        </triangles>
-      </mesh>
-    </object>
+    <basematerials id="1">
+${materialData}
+    </basematerials>
+${objectData}
   </resources>
   <build>
-    <item objectid="1" />
+${itemData}
   </build>
 </model>`;
 }
 
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Perimeters printed around every layer
+ */
+const PERIMETER_COUNT = 2;
+
+/**
+ * Thickness of the solid skin over and under every surface, in mm
+ */
+const SOLID_SKIN_THICKNESS = 0.8;
+
+/**
+ * Sparse infill density for the interior (0-1)
+ */
+const INFILL_DENSITY = 0.2;
+
+/**
+ * The first layer is printed slower so it sticks to the bed
+ */
+const FIRST_LAYER_SPEED_FACTOR = 0.5;
+
+/**
+ * Travel moves shorter than this do not retract, in mm
+ */
+const MIN_RETRACT_TRAVEL = 1.5;
+
 /**
  * Generate GCODE for direct printing
  */
-export function exportToGCODE(
+export async function exportToGCODE(
   object: Mesh | Group,
   filename: string,
   profile: PrinterProfile,
   params: CookieCutterParams
-): void {
-  const gcode = generateGCODE(object, profile, params);
+): Promise<void> {
+  const gcode = await generateGCODE(object, profile, params);
   downloadFile(gcode, filename, 'text/plain');
 }
 
+/**
+ * What printing the generated G-code takes. Times ignore acceleration, so
+ * they are a lower bound that real printers approach on long straight moves.
+ */
+export interface PrintSummary {
+  layerCount: number;
+  extrusionLength: number; // length of extruded lines, in mm
+  travelLength: number; // length of non-printing moves, in mm
+  filamentLength: number; // filament fed into the nozzle, in mm
+  time: number; // in minutes
+}
+
+interface ToolheadState {
+  lines: string[];
+  x: number;
+  y: number;
+  e: number;
+  extrusionLength: number;
+  travelLength: number;
+  time: number; // in minutes
+}
+
 /**
  * Generate GCODE content
  */
-function generateGCODE(
+export async function generateGCODE(
   object: Mesh | Group,
   profile: PrinterProfile,
-  params: CookieCutterParams
-): string {
+  params: CookieCutterParams,
+  taskOptions: TaskOptions = {}
+): Promise<string> {
+  const { gcode } = await planPrint(object, profile, params, taskOptions);
+  return gcode;
+}
+
+/**
+ * Generate GCODE together with the length and duration of every move in it,
+ * so estimates and the exported file always agree
+ */
+export async function planPrint(
+  object: Mesh | Group,
+  profile: PrinterProfile,
+  params: CookieCutterParams,
+  taskOptions: TaskOptions = {}
+): Promise<{ gcode: string; summary: PrintSummary }> {
+  // Slice the part as it sits on the bed, centered
+  const bed = orientForPrint(object, isPrintedUpsideDown(params), {
+    x: profile.bedSize.x / 2,
+    y: profile.bedSize.y / 2,
+  });
+
+  const layers = await planToolpaths(bed, {
+    layerHeight: profile.layerHeight,
+    lineWidth: profile.nozzleDiameter,
+    perimeterCount: PERIMETER_COUNT,
+    solidLayerCount: Math.ceil(SOLID_SKIN_THICKNESS / profile.layerHeight - 1e-6),
+    infillDensity: INFILL_DENSITY,
+  }, taskOptions);
+
   const lines: string[] = [];
 
   // Header
@@ -164,6 +464,9 @@ function generateGCODE(
   lines.push('; https://claude.com/claude-code');
   lines.push(`; Printer Profile: ${profile.name}`);
   lines.push(`; Date: ${new Date().toISOString()}`);
+  lines.push(`; Layer height: ${profile.layerHeight}mm, line width: ${profile.nozzleDiameter}mm`);
+  lines.push(`; Wall thickness: ${params.wallThickness}mm, total height: ${params.totalHeight}mm`);
+  lines.push(`; Orientation: ${isPrintedUpsideDown(params) ? 'upside down, cutting edge up' : 'as modelled'}`);
   lines.push('');
 
   // Start GCODE
@@ -171,84 +474,176 @@ function generateGCODE(
   lines.push('G21 ; Set units to millimeters');
   lines.push('G90 ; Use absolute positioning');
   lines.push('M82 ; Use absolute distances for extrusion');
-  lines.push(`M104 S${profile.temperature.nozzle} ; Set nozzle temperature`);
+  lines.push('M107 ; Fan off');
   lines.push(`M140 S${profile.temperature.bed} ; Set bed temperature`);
-  lines.push('M190 S' + profile.temperature.bed + ' ; Wait for bed temperature');
-  lines.push('M109 S' + profile.temperature.nozzle + ' ; Wait for nozzle temperature');
+  lines.push(`M104 S${profile.temperature.nozzle} ; Set nozzle temperature`);
+  lines.push(`M190 S${profile.temperature.bed} ; Wait for bed temperature`);
+  lines.push(`M109 S${profile.temperature.nozzle} ; Wait for nozzle temperature`);
   lines.push('G28 ; Home all axes');
-  lines.push('G1 Z15.0 F6000 ; Move the platform down 15mm');
-  lines.push('G92 E0 ; Reset extruder');
-  lines.push('G1 F200 E3 ; Extrude 3mm of filament');
   lines.push('G92 E0 ; Reset extruder');
+  lines.push('G1 Z5.0 F3000 ; Lift nozzle');
   lines.push('');
 
-  // Calculate center position
-  const box = new THREE.Box3().setFromObject(object);
-  const size = box.getSize(new THREE.Vector3());
-  const center = box.getCenter(new THREE.Vector3());
-
-  const startX = (profile.bedSize.x - size.x) / 2;
-  const startY = (profile.bedSize.y - size.y) / 2;
-
-  lines.push('; Print moves');
+  const size = new THREE.Box3().setFromObject(bed).getSize(new THREE.Vector3());
   lines.push(`; Object size: ${size.x.toFixed(2)} x ${size.y.toFixed(2)} x ${size.z.toFixed(2)} mm`);
-  lines.push(`; Estimated layers: ${Math.ceil(size.y / profile.layerHeight)}`);
+  lines.push(`; Layers: ${layers.length}`);
   lines.push('');
 
-  // Simple path generation (perimeter only for now)
-  const layerCount = Math.ceil(size.y / profile.layerHeight);
-  let e = 0; // Extrusion amount
-
-  for (let layer = 0; layer < layerCount; layer++) {
-    const z = layer * profile.layerHeight;
-    lines.push(`; Layer ${layer + 1}/${layerCount}`);
-    lines.push(`G0 Z${z.toFixed(3)} F${profile.travelSpeed}`);
-
-    // Simple square perimeter (placeholder - real slicing would be more complex)
-    const points = [
-      [startX, startY + z],
-      [startX + size.x, startY + z],
-      [startX + size.x, startY + size.z + z],
-      [startX, startY + size.z + z],
-      [startX, startY + z]
-    ];
+  // Filament length per mm of extruded line
+  const filamentArea = Math.PI * Math.pow(profile.filamentDiameter / 2, 2);
+  const extrusionPerMm = (profile.nozzleDiameter * profile.layerHeight) / filamentArea;
+
+  const state: ToolheadState = { lines, x: 0, y: 0, e: 0, extrusionLength: 0, travelLength: 0, time: 0 };
 
-    for (let i = 0; i < points.length; i++) {
-      const [x, y] = points[i];
-      if (i === 0) {
-        lines.push(`G0 X${x.toFixed(3)} Y${y.toFixed(3)} F${profile.travelSpeed} ; Move to start`);
-      } else {
-        const distance = Math.sqrt(
-          Math.pow(points[i][0] - points[i - 1][0], 2) +
-          Math.pow(points[i][1] - points[i - 1][1], 2)
-        );
-        e += (distance * profile.layerHeight * profile.nozzleDiameter) /
-          (Math.PI * Math.pow(profile.filamentDiameter / 2, 2));
-        lines.push(`G1 X${x.toFixed(3)} Y${y.toFixed(3)} E${e.toFixed(5)} F${profile.printSpeed}`);
+  layers.forEach((layer, index) => {
+    lines.push(`;LAYER:${index}`);
+    lines.push(`G0 Z${layer.z.toFixed(3)} F${profile.travelSpeed}`);
+    state.time += profile.layerHeight / profile.travelSpeed;
+    if (index === 1) {
+      lines.push('M106 S255 ; Fan on');
+    }
+
+    const speed = index === 0 ? profile.printSpeed * FIRST_LAYER_SPEED_FACTOR : profile.printSpeed;
+
+    lines.push(';TYPE:WALL');
+    for (const loop of orderPaths(layer.perimeters, state, true)) {
+      extrudePath(state, profile, loop, extrusionPerMm, speed);
+    }
+
+    const infill = [
+      { type: 'SKIN', paths: layer.solidInfill },
+      { type: 'FILL', paths: layer.sparseInfill },
+    ];
+    for (const { type, paths } of infill) {
+      if (paths.length === 0) continue;
+      lines.push(`;TYPE:${type}`);
+      for (const line of orderPaths(paths, state, false)) {
+        extrudePath(state, profile, line, extrusionPerMm, speed);
       }
     }
     lines.push('');
-  }
+  });
 
   // End GCODE
   lines.push('; End GCODE');
+  lines.push(`G1 E${(state.e - profile.retraction.distance).toFixed(5)} F${profile.retraction.speed} ; Retract filament`);
+  lines.push('M107 ; Fan off');
   lines.push('M104 S0 ; Turn off nozzle');
   lines.push('M140 S0 ; Turn off bed');
   lines.push('G91 ; Relative positioning');
-  lines.push('G1 E-2 F300 ; Retract filament');
   lines.push('G1 Z10 F3000 ; Move Z up');
   lines.push('G90 ; Absolute positioning');
   lines.push('G28 X0 Y0 ; Home X and Y');
   lines.push('M84 ; Disable steppers');
-  lines.push('; Total extrusion: ' + e.toFixed(2) + 'mm');
+  lines.push(`; Filament used: ${(state.e / 1000).toFixed(3)}m`);
+  lines.push(`; Estimated print time: ${Math.ceil(state.time)}min`);
+
+  return {
+    gcode: lines.join('\n'),
+    summary: {
+      layerCount: layers.length,
+      extrusionLength: state.extrusionLength,
+      travelLength: state.travelLength,
+      filamentLength: state.e,
+      time: state.time,
+    },
+  };
+}
+
+/**
+ * Order paths nearest-first from the current nozzle position. Closed loops
+ * start at their nearest point, open lines are reversed when their far end
+ * is closer.
+ */
+function orderPaths(
+  paths: { x: number; y: number }[][],
+  state: ToolheadState,
+  closed: boolean
+): { x: number; y: number }[][] {
+  const remaining = paths.filter(path => path.length > 1);
+  const ordered: { x: number; y: number }[][] = [];
+  let position = { x: state.x, y: state.y };
+  const distance = (p: { x: number; y: number }) => Math.hypot(p.x - position.x, p.y - position.y);
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestStart = 0;
+    let bestDistance = Infinity;
+
+    remaining.forEach((path, i) => {
+      const candidates = closed ? path.map((_, k) => k) : [0, path.length - 1];
+      for (const k of candidates) {
+        const d = distance(path[k]);
+        if (d < bestDistance) {
+          best = i;
+          bestStart = k;
+          bestDistance = d;
+        }
+      }
+    });
+
+    const [path] = remaining.splice(best, 1);
+    let next: { x: number; y: number }[];
+    if (closed) {
+      // Rotate the loop to start at its nearest point and return there
+      next = [...path.slice(bestStart), ...path.slice(0, bestStart), path[bestStart]];
+    } else {
+      next = bestStart === 0 ? path : [...path].reverse();
+    }
+
+    ordered.push(next);
+    position = next[next.length - 1];
+  }
+
+  return ordered;
+}
+
+/**
+ * Travel to the start of a path (retracting on long moves) and extrude along it
+ */
+function extrudePath(
+  state: ToolheadState,
+  profile: PrinterProfile,
+  path: { x: number; y: number }[],
+  extrusionPerMm: number,
+  speed: number
+): void {
+  const { lines } = state;
+  const [start] = path;
+  const travel = Math.hypot(start.x - state.x, start.y - state.y);
+  state.travelLength += travel;
+  state.time += travel / profile.travelSpeed;
+
+  // Nothing to retract before the first extrusion
+  if (state.e > 0 && travel > MIN_RETRACT_TRAVEL) {
+    lines.push(`G1 E${(state.e - profile.retraction.distance).toFixed(5)} F${profile.retraction.speed}`);
+    lines.push(`G0 X${start.x.toFixed(3)} Y${start.y.toFixed(3)} F${profile.travelSpeed}`);
+    lines.push(`G1 E${state.e.toFixed(5)} F${profile.retraction.speed}`);
+    state.time += (2 * profile.retraction.distance) / profile.retraction.speed;
+  } else {
+    lines.push(`G0 X${start.x.toFixed(3)} Y${start.y.toFixed(3)} F${profile.travelSpeed}`);
+  }
+
+  for (let i = 1; i < path.length; i++) {
+    const p = path[i];
+    const length = Math.hypot(p.x - path[i - 1].x, p.y - path[i - 1].y);
+    if (length === 0) continue;
+
+    state.e += length * extrusionPerMm;
+    state.extrusionLength += length;
+    state.time += length / speed;
+    lines.push(`G1 X${p.x.toFixed(3)} Y${p.y.toFixed(3)} E${state.e.toFixed(5)} F${speed}`);
+  }
 
-  return lines.join('\n');
+  const end = path[path.length - 1];
+  state.x = end.x;
+  state.y = end.y;
 }
 
 /**
  * Download file helper
  */
-function downloadFile(content: string, filename: string, mimeType: string): void {
+export function downloadFile(content: string | Uint8Array<ArrayBuffer>, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -325,6 +720,9 @@ export function estimateExportSize(object: Mesh | Group, format: ExportFormat):
       return 1000 + triangleCount * 100; // XML overhead + triangle data
     case 'gcode':
       return triangleCount * 80; // Approximate GCODE size
+    case 'svg':
+    case 'dxf':
+      return 500 + triangleCount * 10; // Outline only, a fraction of the mesh
     default:
       return 0;
   }
@@ -2,6 +2,7 @@
  * AI-powered image processing for cookie cutter design
  * Enhances images before vectorization for better results
  */
+import { findOtsuThreshold, toGrayscale } from './imageTracing';
 
 export interface AIProcessingOptions {
   enhanceContrast: boolean;
@@ -187,7 +188,7 @@ function removeBackground(imageData: ImageData): ImageData {
   const result = new Uint8ClampedArray(data);
 
   // Simple background removal: assume edges are corners
-  const threshold = calculateOtsuThreshold(imageData);
+  const threshold = findOtsuThreshold(toGrayscale(imageData));
 
   for (let i = 0; i < data.length; i += 4) {
     const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
@@ -295,7 +296,7 @@ function detectEdges(imageData: ImageData): ImageData {
  * Apply automatic thresholding using Otsu's method
  */
 function autoThreshold(imageData: ImageData): ImageData {
-  const threshold = calculateOtsuThreshold(imageData);
+  const threshold = findOtsuThreshold(toGrayscale(imageData));
   const data = imageData.data;
   const result = new Uint8ClampedArray(data);
 
@@ -311,56 +312,6 @@ function autoThreshold(imageData: ImageData): ImageData {
   return new ImageData(result, imageData.width, imageData.height);
 }
 
-/**
- * Calculate Otsu's threshold
- */
-function calculateOtsuThreshold(imageData: ImageData): number {
-  const data = imageData.data;
-  const histogram = new Array(256).fill(0);
-  const totalPixels = imageData.width * imageData.height;
-
-  // Build histogram
-  for (let i = 0; i < data.length; i += 4) {
-    const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-    histogram[gray]++;
-  }
-
-  // Calculate probabilities
-  const probabilities = histogram.map(h => h / totalPixels);
-
-  // Find optimal threshold
-  let maxVariance = 0;
-  let threshold = 0;
-
-  for (let t = 0; t < 256; t++) {
-    let w0 = 0, w1 = 0;
-    let sum0 = 0, sum1 = 0;
-
-    for (let i = 0; i < t; i++) {
-      w0 += probabilities[i];
-      sum0 += i * probabilities[i];
-    }
-
-    for (let i = t; i < 256; i++) {
-      w1 += probabilities[i];
-      sum1 += i * probabilities[i];
-    }
-
-    if (w0 === 0 || w1 === 0) continue;
-
-    const mean0 = sum0 / w0;
-    const mean1 = sum1 / w1;
-    const variance = w0 * w1 * Math.pow(mean0 - mean1, 2);
-
-    if (variance > maxVariance) {
-      maxVariance = variance;
-      threshold = t;
-    }
-  }
-
-  return threshold;
-}
-
 /**
  * Simple k-means clustering for color quantization
  */
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import type { CookieCutterParams } from '../types/CookieCutter';
 import { generateCookieCutter } from './cookieCutterGenerator';
 import { generateStamp } from './stampGenerator';
+import { TaskCancelledError, checkpoint, subTask, type TaskOptions } from './taskControl';
 
 export interface BatchItem {
   id: string;
@@ -17,33 +18,49 @@ export interface BatchLayout {
   columns?: number;
 }
 
+/**
+ * A batch item that could not be generated, and why
+ */
+export interface BatchFailure {
+  id: string;
+  name: string;
+  error: string;
+}
+
 export interface BatchResult {
   mesh: THREE.Group;
   items: BatchItem[];
+  failed: BatchFailure[]; // items left out of the mesh
   layout: BatchLayout;
   totalDimensions: { width: number; height: number };
 }
 
 /**
- * Create a batch of cookie cutters arranged on the build plate
+ * Create a batch of cookie cutters arranged on the build plate. Items that
+ * fail to generate are left out and listed in `failed`.
  */
 export async function createBatch(
   items: BatchItem[],
   layout: BatchLayout,
-  buildPlateSize: number
+  buildPlateSize: number,
+  options: TaskOptions = {}
 ): Promise<BatchResult> {
   const batchGroup = new THREE.Group();
   batchGroup.name = 'batch';
+  const failed: BatchFailure[] = [];
 
   // Calculate layout positions
   const positionedItems = calculateLayout(items, layout, buildPlateSize);
 
   // Generate each item
-  for (const item of positionedItems) {
+  for (const [index, item] of positionedItems.entries()) {
+    await checkpoint(options, index / positionedItems.length, `Generating ${item.name}`);
+    const itemOptions = subTask(options, index / positionedItems.length, (index + 1) / positionedItems.length);
+
     try {
       const mesh = item.params.mode === 'stamp'
-        ? await generateStamp(item.svgData, item.params)
-        : await generateCookieCutter(item.svgData, item.params);
+        ? await generateStamp(item.svgData, item.params, itemOptions)
+        : await generateCookieCutter(item.svgData, item.params, itemOptions);
 
       // Position the mesh
       if (item.position) {
@@ -53,7 +70,12 @@ export async function createBatch(
       mesh.name = item.id;
       batchGroup.add(mesh);
     } catch (error) {
-      console.error(`Error generating item ${item.id}:`, error);
+      if (error instanceof TaskCancelledError) throw error;
+      failed.push({
+        id: item.id,
+        name: item.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -64,6 +86,7 @@ export async function createBatch(
   return {
     mesh: batchGroup,
     items: positionedItems,
+    failed,
     layout,
     totalDimensions: { width: size.x, height: size.z }
   };
@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { getBedTransform, orientForPrint } from './bedTransform';
+import { DEFAULT_PARAMS, type CookieCutterParams } from '../types/CookieCutter';
+import { generateCookieCutter } from './cookieCutterGenerator';
+import { generateStamp } from './stampGenerator';
+import { deserializeSVG } from './svgParser';
+import { shouldMirrorText } from './textOutline';
+
+const WALL_HEIGHT = 10;
+const FLANGE_HEIGHT = 2;
+
+/**
+ * A cutter as the scene models it, cutting edge down at y = 0: a 20 x 30 mm
+ * wall with a 40 x 50 mm flange along its top, moved off the origin
+ */
+function makeCutter(): THREE.Group {
+  const wall = new THREE.Mesh(new THREE.BoxGeometry(20, WALL_HEIGHT, 30));
+  wall.name = 'wall';
+  wall.position.y = WALL_HEIGHT / 2;
+
+  const flange = new THREE.Mesh(new THREE.BoxGeometry(40, FLANGE_HEIGHT, 50));
+  flange.name = 'flange';
+  flange.position.y = WALL_HEIGHT - FLANGE_HEIGHT / 2;
+
+  const cutter = new THREE.Group();
+  cutter.add(wall, flange);
+  cutter.position.set(12, 3, -7);
+  cutter.rotation.y = Math.PI / 2;
+  return cutter;
+}
+
+function bedBox(bed: THREE.Object3D, name?: string): THREE.Box3 {
+  const object = name ? bed.getObjectByName(name) : bed;
+  return new THREE.Box3().setFromObject(object!);
+}
+
+describe('orientForPrint', () => {
+  for (const upsideDown of [false, true]) {
+    describe(upsideDown ? 'upside down' : 'edge down', () => {
+      it('rests on z = 0', () => {
+        const box = bedBox(orientForPrint(makeCutter(), upsideDown));
+        expect(box.min.z).toBeCloseTo(0);
+        expect(box.max.z).toBeCloseTo(WALL_HEIGHT);
+      });
+
+      it('centers the footprint on the bed', () => {
+        const center = bedBox(orientForPrint(makeCutter(), upsideDown)).getCenter(new THREE.Vector3());
+        expect(center.x).toBeCloseTo(0);
+        expect(center.y).toBeCloseTo(0);
+
+        const offset = bedBox(orientForPrint(makeCutter(), upsideDown, { x: 110, y: 90 }));
+        expect(offset.getCenter(new THREE.Vector3()).x).toBeCloseTo(110);
+        expect(offset.getCenter(new THREE.Vector3()).y).toBeCloseTo(90);
+        expect(offset.min.z).toBeCloseTo(0);
+      });
+
+      it('keeps the footprint size', () => {
+        // The cutter is turned a quarter about Y, so the flange runs 50 along x
+        const size = bedBox(orientForPrint(makeCutter(), upsideDown)).getSize(new THREE.Vector3());
+        expect(size.x).toBeCloseTo(50);
+        expect(size.y).toBeCloseTo(40);
+      });
+    });
+  }
+
+  it('puts the cutting edge on the bed when printed edge down', () => {
+    const bed = orientForPrint(makeCutter(), false);
+    expect(bedBox(bed, 'wall').min.z).toBeCloseTo(0);
+    expect(bedBox(bed, 'flange').min.z).toBeCloseTo(WALL_HEIGHT - FLANGE_HEIGHT);
+    expect(bedBox(bed, 'flange').max.z).toBeCloseTo(WALL_HEIGHT);
+  });
+
+  it('puts the flange on the bed and the cutting edge up when printed upside down', () => {
+    const bed = orientForPrint(makeCutter(), true);
+    expect(bedBox(bed, 'flange').min.z).toBeCloseTo(0);
+    expect(bedBox(bed, 'flange').max.z).toBeCloseTo(FLANGE_HEIGHT);
+    expect(bedBox(bed, 'wall').max.z).toBeCloseTo(WALL_HEIGHT);
+  });
+
+  it('turns the part over instead of mirroring it', () => {
+    const cutter = makeCutter();
+    for (const upsideDown of [false, true]) {
+      expect(getBedTransform(cutter, upsideDown).determinant()).toBeCloseTo(1);
+    }
+  });
+
+  it('maps scene heights to bed z, flipped when upside down', () => {
+    const cutter = makeCutter();
+    cutter.updateMatrixWorld(true);
+    const edge = new THREE.Vector3(12, 3, -7);
+    const top = new THREE.Vector3(12, 3 + WALL_HEIGHT, -7);
+
+    const flat = getBedTransform(cutter, false);
+    expect(edge.clone().applyMatrix4(flat).z).toBeCloseTo(0);
+    expect(top.clone().applyMatrix4(flat).z).toBeCloseTo(WALL_HEIGHT);
+
+    const flipped = getBedTransform(cutter, true);
+    expect(edge.clone().applyMatrix4(flipped).z).toBeCloseTo(WALL_HEIGHT);
+    expect(top.clone().applyMatrix4(flipped).z).toBeCloseTo(0);
+  });
+
+  it('leaves the scene object where it was', () => {
+    const cutter = makeCutter();
+    orientForPrint(cutter, true, { x: 110, y: 110 });
+    expect(cutter.position.toArray()).toEqual([12, 3, -7]);
+    expect(cutter.rotation.y).toBeCloseTo(Math.PI / 2);
+  });
+});
+
+/**
+ * A 100 x 60 mm design with a 20 mm mark in its top left corner and a block
+ * down its right side, cached as parsed paths the way the worker gets them
+ */
+function cacheMarkedDesign(): string {
+  const source = '<svg xmlns="http://www.w3.org/2000/svg" width="100mm" height="60mm" viewBox="0 0 100 60">'
+    + '<path d="M0,0 H20 V20 H0 Z"/><path d="M40,0 H100 V60 H40 Z"/></svg>';
+  const square = (x0: number, y0: number, x1: number, y1: number) => {
+    const path = new THREE.Path([
+      new THREE.Vector2(x0, y0),
+      new THREE.Vector2(x1, y0),
+      new THREE.Vector2(x1, y1),
+      new THREE.Vector2(x0, y1),
+    ]);
+    path.autoClose = true;
+    return {
+      color: 0,
+      style: { fill: '#000000', fillRule: 'nonzero', stroke: 'none' },
+      lineage: [],
+      subPaths: [path.toJSON()],
+    };
+  };
+
+  deserializeSVG({ source, paths: [square(0, 0, 20, 20), square(40, 0, 100, 60)] });
+  return source;
+}
+
+describe('design orientation on the bed', () => {
+  const params = (mode: CookieCutterParams['mode']): CookieCutterParams => ({
+    ...DEFAULT_PARAMS,
+    mode,
+    detailMode: 'none',
+    enableHandle: false,
+    handleStyle: 'none',
+    stampBase: true,
+  });
+
+  // Seen from above the bed, with x to the right and y away from the viewer,
+  // the design's top left corner is at -x, +y
+  const expectTopLeft = (box: THREE.Box3, bed: THREE.Box3) => {
+    const center = box.getCenter(new THREE.Vector3());
+    const middle = bed.getCenter(new THREE.Vector3());
+    expect(center.x).toBeLessThan(middle.x);
+    expect(center.y).toBeGreaterThan(middle.y);
+  };
+
+  it('shows a cutter the way the design reads from above', async () => {
+    const source = cacheMarkedDesign();
+    const bed = orientForPrint(await generateCookieCutter(source, params('cutter')), false);
+    expectTopLeft(bedBox(bed, 'cutter-body-0'), bedBox(bed));
+  });
+
+  it('shows a stamp face up the way the design reads from above', async () => {
+    const source = cacheMarkedDesign();
+    const bed = orientForPrint(await generateStamp(source, params('stamp')), false);
+    const mark = bedBox(bed, 'stamp-relief-0');
+    expectTopLeft(mark, bedBox(bed));
+
+    // The relief stands on the base, face up
+    expect(mark.max.z).toBeCloseTo(bedBox(bed).max.z);
+    expect(bedBox(bed, 'stamp-base').min.z).toBeCloseTo(0);
+  });
+
+  it('mirrors stamp text, since the face is pressed into the dough face down', () => {
+    expect(shouldMirrorText(params('stamp'))).toBe(true);
+    expect(shouldMirrorText(params('cutter'))).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import type { Mesh, Group } from 'three';
+import type { CookieCutterParams } from '../types/CookieCutter';
+
+/**
+ * Rotation from the Y-up scene into the Z-up frame used by slicers and
+ * export formats. Scene z (SVG y, pointing down the design) becomes -y, so
+ * the design reads the same way from above the bed.
+ */
+export const Y_UP_TO_Z_UP = new THREE.Matrix4().makeRotationX(Math.PI / 2);
+
+/**
+ * Half turn about the bed's X axis, turning a part over
+ */
+const FLIP_OVER = new THREE.Matrix4().makeRotationX(Math.PI);
+
+/**
+ * Whether a design is printed upside down. Cutters are modelled cutting edge
+ * down, so printing them upside down puts the rim on the bed; stamps always
+ * print base down.
+ */
+export function isPrintedUpsideDown(params: CookieCutterParams): boolean {
+  return params.mode === 'cutter' && params.printUpsideDown;
+}
+
+/**
+ * Rotation from the scene into the bed frame
+ */
+export function getBedRotation(upsideDown: boolean): THREE.Matrix4 {
+  return upsideDown ? FLIP_OVER.clone().multiply(Y_UP_TO_Z_UP) : Y_UP_TO_Z_UP.clone();
+}
+
+/**
+ * Transform from scene world coordinates into the bed frame: Z-up
+ * millimetres with the part resting on z = 0 and its footprint centered
+ * on `center`
+ */
+export function getBedTransform(
+  object: THREE.Object3D,
+  upsideDown: boolean,
+  center: { x: number; y: number } = { x: 0, y: 0 }
+): THREE.Matrix4 {
+  const rotation = getBedRotation(upsideDown);
+  const box = new THREE.Box3().setFromObject(object).applyMatrix4(rotation);
+  const footprint = box.getCenter(new THREE.Vector3());
+
+  return new THREE.Matrix4()
+    .makeTranslation(center.x - footprint.x, center.y - footprint.y, -box.min.z)
+    .multiply(rotation);
+}
+
+/**
+ * Place an object on the print bed for export or slicing. Returns a group
+ * holding a clone of the object (sharing its geometry) under the bed
+ * transform, so the scene's model is left as it is.
+ */
+export function orientForPrint(
+  object: Mesh | Group,
+  upsideDown: boolean,
+  center: { x: number; y: number } = { x: 0, y: 0 }
+): Group {
+  object.updateMatrixWorld(true);
+
+  const copy = object.clone();
+  copy.matrix.copy(object.matrixWorld);
+  copy.matrix.decompose(copy.position, copy.quaternion, copy.scale);
+
+  const bed = new THREE.Group();
+  bed.name = object.name;
+  bed.add(copy);
+  bed.applyMatrix4(getBedTransform(object, upsideDown, center));
+  bed.updateMatrixWorld(true);
+
+  return bed;
+}
@@ -0,0 +1,38 @@
+import { offsetPaths, unionPaths, simplifyPath, cleanPath, pathArea } from './pathOperations';
+import type { PathPoint } from './svgPathExtractor';
+
+/**
+ * Points closer than this (in mm) to the line through their neighbours are
+ * dropped from a border outline
+ */
+const SIMPLIFY_TOLERANCE = 0.05;
+
+/**
+ * One smooth contour around a whole design, like the cut line of a sticker.
+ *
+ * The design's outer paths are united and offset outward by `margin` with
+ * round joins, and every hole left is filled. Going `smoothing` further out
+ * and back in bridges the notches narrower than twice `smoothing` that the
+ * offset still follows. Paths are in millimetres; designs whose parts lie
+ * further than twice the margin apart get one contour per part.
+ */
+export async function createBorderOutline(
+  artwork: PathPoint[][],
+  margin: number,
+  smoothing: number
+): Promise<PathPoint[][]> {
+  // Turn every path outward so their union fills everything they enclose
+  const filled = await unionPaths(artwork.map(path => (pathArea(path) < 0 ? [...path].reverse() : path)));
+
+  const grown = (await offsetPaths(filled, margin + smoothing, 'round')).filter(path => pathArea(path) > 0);
+  const contours = smoothing > 0
+    ? (await offsetPaths(grown, -smoothing, 'round')).filter(path => pathArea(path) > 0)
+    : grown;
+
+  const simplified: PathPoint[][] = [];
+  for (const contour of contours) {
+    const cleaned = await cleanPath(contour, SIMPLIFY_TOLERANCE);
+    simplified.push(...(await simplifyPath(cleaned)).filter(path => pathArea(path) > 0));
+  }
+  return simplified;
+}
@@ -204,13 +204,29 @@ function getSeedDesigns(): SavedDesign[] {
         cuttingHeight: 15,
         totalHeight: 20,
         taperAngle: 5,
+        edgeThickness: 0.4,
         scale: 1.0,
+        targetWidth: 0,
+        targetHeight: 0,
+        lockAspect: true,
+        svgDpi: 96,
+        fitToPlate: false,
         handleStyle: 'none',
         handleHeight: 8,
+        handleWidth: 8,
+        handleBarCount: 2,
         enableHandle: false,
+        detailMode: 'none',
+        outlineMode: 'paths',
+        borderMargin: 5,
+        borderSmoothing: 2,
+        imprintDepth: 2,
+        doughType: 'sugarCookie',
+        doughThickness: 6,
         enableEmbossing: false,
         embossDepth: 1.0,
         buildPlateSize: 200,
+        printUpsideDown: true,
         mode: 'cutter',
         stampDepth: 2.5,
         stampBase: true
@@ -236,13 +252,29 @@ function getSeedDesigns(): SavedDesign[] {
         cuttingHeight: 12,
         totalHeight: 18,
         taperAngle: 7,
+        edgeThickness: 0.4,
         scale: 1.2,
+        targetWidth: 0,
+        targetHeight: 0,
+        lockAspect: true,
+        svgDpi: 96,
+        fitToPlate: false,
         handleStyle: 'none',
         handleHeight: 8,
+        handleWidth: 8,
+        handleBarCount: 2,
         enableHandle: false,
+        detailMode: 'none',
+        outlineMode: 'paths',
+        borderMargin: 5,
+        borderSmoothing: 2,
+        imprintDepth: 2,
+        doughType: 'sugarCookie',
+        doughThickness: 6,
         enableEmbossing: false,
         embossDepth: 1.0,
         buildPlateSize: 200,
+        printUpsideDown: true,
         mode: 'cutter',
         stampDepth: 2.5,
         stampBase: true
@@ -276,13 +308,29 @@ function getSeedDesigns(): SavedDesign[] {
         cuttingHeight: 14,
         totalHeight: 19,
         taperAngle: 6,
+        edgeThickness: 0.4,
         scale: 0.9,
+        targetWidth: 0,
+        targetHeight: 0,
+        lockAspect: true,
+        svgDpi: 96,
+        fitToPlate: false,
         handleStyle: 'none',
         handleHeight: 8,
+        handleWidth: 8,
+        handleBarCount: 2,
         enableHandle: false,
+        detailMode: 'none',
+        outlineMode: 'paths',
+        borderMargin: 5,
+        borderSmoothing: 2,
+        imprintDepth: 2,
+        doughType: 'sugarCookie',
+        doughThickness: 6,
         enableEmbossing: false,
         embossDepth: 1.0,
         buildPlateSize: 200,
+        printUpsideDown: true,
         mode: 'cutter',
         stampDepth: 2.5,
         stampBase: true
@@ -1,89 +1,229 @@
 import * as THREE from 'three';
-import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
 import type { CookieCutterParams } from '../types/CookieCutter';
+import {
+  offsetPath,
+  offsetPaths,
+  unionPaths,
+  differencePaths,
+  intersectPaths,
+  pathArea,
+  pathCentroid,
+  largestPath,
+  isPointInPath,
+  cleanPath,
+  offsetOpenPath,
+} from './pathOperations';
+import { repairGeometry } from './meshRepair';
+import { classifyPaths, type DetailPath } from './pathClassifier';
+import { resolveSizing, fitSizingToPlate, type DesignSizing } from './sizing';
+import { parseSVGPaths } from './svgParser';
+import { checkpoint, type TaskOptions } from './taskControl';
+import { analyzeCutterShape } from './shapeAnalyzer';
+import { createBorderOutline } from './borderOutline';
 
 /**
  * Generate a 3D cookie cutter mesh from SVG path data
  */
 export async function generateCookieCutter(
   svgString: string,
-  params: CookieCutterParams
+  params: CookieCutterParams,
+  options: TaskOptions = {}
 ): Promise<THREE.Group> {
-  // Parse SVG
-  const loader = new SVGLoader();
-  const svgData = loader.parse(svgString);
-
-  if (!svgData.paths || svgData.paths.length === 0) {
-    throw new Error('No paths found in SVG');
-  }
-
   // Create a group to hold all meshes
   const group = new THREE.Group();
   group.name = 'cookieCutter';
 
-  // Process each path
-  let shapeIndex = 0;
-  for (const path of svgData.paths) {
-    const shapes = SVGLoader.createShapes(path);
-
-    for (const shape of shapes) {
-      // Create the main cutter body with extrusion
-      const mesh = createCutterBody(shape, params);
-      mesh.name = `cutter-body-${shapeIndex}`;
-      group.add(mesh);
-
-      // Add handle if enabled
-      if (params.handleStyle !== 'none' && params.enableHandle) {
-        const handle = createHandle(shape, params);
-        if (handle) {
-          handle.name = `handle-${shapeIndex}`;
-          group.add(handle);
-        }
+  const { outlines, detailsByOutline, sizing } = await collectCutterOutlines(svgString, params);
+
+  // Process each outline
+  for (let shapeIndex = 0; shapeIndex < outlines.length; shapeIndex++) {
+    await checkpoint(options, shapeIndex / outlines.length, `Building outline ${shapeIndex + 1} of ${outlines.length}`);
+
+    // Create the main cutter body, with its handle and imprint ribs fused on
+    const mesh = await createCutterBody(outlines[shapeIndex], params, detailsByOutline[shapeIndex]);
+    mesh.name = `cutter-body-${shapeIndex}`;
+    group.add(mesh);
+  }
+
+  // Position so it's centered on X/Z and sitting on the grid (Y=0)
+  const center = new THREE.Box3().setFromObject(group).getCenter(new THREE.Vector3());
+  group.position.set(-center.x, 0, -center.z);
+
+  // Keep the final size for the parameter panel and viewer
+  group.userData.sizing = sizing;
+
+  // Check the outlines for features too fine to print, placed like the model
+  await checkpoint(options, 1, 'Checking printability');
+  const placed = outlines.map(outline => outline.map(p => ({ x: p.x - center.x, y: p.y - center.z })));
+  group.userData.shapeIssues = await analyzeCutterShape(placed, params);
+
+  // Return the group with all elements separate (not merged)
+  // This allows individual selection and deletion
+  return group;
+}
+
+/**
+ * Group details by the outline they belong to. Closed details outside every
+ * outline are added to `outlinePoints`.
+ */
+function attachDetails(outlinePoints: THREE.Vector2[][], details: DetailPath[]): DetailPath[][] {
+  const detailsByOutline = outlinePoints.map((): DetailPath[] => []);
+
+  for (const detail of details) {
+    // Attach each detail to the smallest outline around it
+    let owner = -1;
+    outlinePoints.forEach((points, i) => {
+      if (isPointInPath(detail.points[0], points) &&
+          (owner < 0 || Math.abs(pathArea(points)) < Math.abs(pathArea(outlinePoints[owner])))) {
+        owner = i;
       }
+    });
+
+    if (owner >= 0) {
+      detailsByOutline[owner].push(detail);
+    } else if (detail.closed) {
+      // A closed detail outside every outline is cut like an outline
+      outlinePoints.push(detail.points);
+      detailsByOutline.push([]);
+    }
+  }
+
+  return detailsByOutline;
+}
 
-      shapeIndex++;
+/**
+ * Parse the SVG and split it into cutting outlines, each with the interior
+ * details that become its imprint ribs. Outlines and details come back in
+ * millimetres, sized by `resolveSizing` and, when `fitToPlate` is on,
+ * shrunk so the finished cutter fits the build plate.
+ *
+ * With a border outline these are the design's own outlines, sized so the
+ * border around them meets the target size; `collectCutterOutlines` adds
+ * the border itself.
+ */
+async function collectOutlines(
+  svgString: string,
+  params: CookieCutterParams
+): Promise<{ outlines: THREE.Vector2[][]; detailsByOutline: DetailPath[][]; sizing: DesignSizing }> {
+  // Parse SVG
+  const paths = parseSVGPaths(svgString);
+
+  if (paths.length === 0) {
+    throw new Error('No paths found in SVG');
+  }
+
+  // Split cutting outlines from interior imprint details
+  const { outlines, details } = await classifyPaths(paths, params.detailMode);
+  const border = params.outlineMode === 'border' ? params.borderMargin : 0;
+  if (border > 0) {
+    // A border presses the whole design in, holes included
+    for (const shape of outlines) {
+      details.push(...shape.holes.map(hole => ({ points: hole.getPoints(), closed: true })));
     }
   }
 
-  // Auto-scale to fit within build plate
-  const buildPlateSize = params.buildPlateSize || 200; // mm
-  const box = new THREE.Box3().setFromObject(group);
-  const size = box.getSize(new THREE.Vector3());
-  const center = box.getCenter(new THREE.Vector3());
+  const outlinePoints = outlines.map(shape => shape.getPoints());
+  const detailsByOutline = attachDetails(outlinePoints, details);
 
-  // Calculate the maximum dimension (X or Z, ignore Y which is height)
-  const maxDimension = Math.max(size.x, size.z);
+  if (outlinePoints.length === 0) {
+    throw new Error('No outline paths found in SVG');
+  }
 
-  // Scale down if too large, keeping 80% of build plate for safety
-  if (maxDimension > buildPlateSize * 0.8) {
-    const autoScale = (buildPlateSize * 0.8) / maxDimension;
-    group.scale.set(autoScale, autoScale, autoScale);
+  // Size the design from the bounds of its cutting outlines
+  const bounds = new THREE.Box2().setFromPoints(outlinePoints.flat());
+  const boundsSize = bounds.getSize(new THREE.Vector2());
+  const targets = {
+    targetWidth: params.targetWidth > 0 ? Math.max(0, params.targetWidth - 2 * border) : 0,
+    targetHeight: params.targetHeight > 0 ? Math.max(0, params.targetHeight - 2 * border) : 0,
+  };
+  let sizing = resolveSizing(svgString, { width: boundsSize.x, height: boundsSize.y }, { ...params, ...targets });
+  if (params.fitToPlate) {
+    const margin = Math.max(...getWallProfile(params).map(level => level.outerOffset));
+    sizing = fitSizingToPlate(sizing, margin + border, params.buildPlateSize || 200);
+  }
+  if (border > 0) {
+    sizing = { ...sizing, width: sizing.width + 2 * border, height: sizing.height + 2 * border };
+  }
 
-    // Recalculate bounding box after scaling
-    box.setFromObject(group);
-    center.copy(box.getCenter(new THREE.Vector3()));
+  const toMillimetres = (points: THREE.Vector2[]) =>
+    points.map(p => new THREE.Vector2(p.x * sizing.scaleX, p.y * sizing.scaleY));
+
+  return {
+    outlines: outlinePoints.map(toMillimetres),
+    detailsByOutline: detailsByOutline.map(list =>
+      list.map(detail => ({ ...detail, points: toMillimetres(detail.points) }))
+    ),
+    sizing,
+  };
+}
+
+/**
+ * Cutting outlines and details as `generateCookieCutter` builds them. A
+ * border outline replaces the design's own outlines with one contour
+ * around all of it, and the design becomes its details.
+ */
+async function collectCutterOutlines(
+  svgString: string,
+  params: CookieCutterParams
+): Promise<{ outlines: THREE.Vector2[][]; detailsByOutline: DetailPath[][]; sizing: DesignSizing }> {
+  const collected = await collectOutlines(svgString, params);
+  if (params.outlineMode !== 'border' || !(params.borderMargin > 0)) {
+    return collected;
   }
 
-  // Position so it's centered on X/Z and sitting on the grid (Y=0)
-  group.position.set(-center.x, 0, -center.z);
+  const border = await createBorderOutline(collected.outlines, params.borderMargin, params.borderSmoothing);
+  const outlines = border.map(path => path.map(p => new THREE.Vector2(p.x, p.y)));
+  const details = [
+    ...collected.outlines.map(points => ({ points, closed: true })),
+    ...collected.detailsByOutline.flat(),
+  ];
 
-  // Return the group with all elements separate (not merged)
-  // This allows individual selection and deletion
-  return group;
+  return { outlines, detailsByOutline: attachDetails(outlines, details), sizing: collected.sizing };
 }
 
 /**
- * Create the main cutter body from a shape (hollow walls only)
+ * Final outline size of a design, as `generateCookieCutter` would build it
  */
-function createCutterBody(
-  shape: THREE.Shape,
+export async function measureCookieCutter(svgString: string, params: CookieCutterParams): Promise<DesignSizing> {
+  return (await collectOutlines(svgString, params)).sizing;
+}
+
+/**
+ * Inner (cutting) and outer wall lines of every outline, in the cutter's
+ * own coordinates: millimetres after sizing, before the placement applied
+ * to the generated group. `y` is the SVG's downward axis, which is the
+ * scene's Z axis.
+ */
+export async function getCutterWallLines(
+  svgString: string,
   params: CookieCutterParams
-): THREE.Mesh {
-  // Get the outline points
-  const points = shape.getPoints();
+): Promise<{ inner: { x: number; y: number }[]; outer: { x: number; y: number }[] }[]> {
+  const { outlines } = await collectCutterOutlines(svgString, params);
+  const halfWall = params.wallThickness / 2;
+
+  const lines: { inner: { x: number; y: number }[]; outer: { x: number; y: number }[] }[] = [];
+  for (const outline of outlines) {
+    const inner = largestPath(await offsetPath(outline, -halfWall, 'miter', WALL_MITER_LIMIT));
+    const outer = largestPath(await offsetPath(outline, halfWall, 'miter', WALL_MITER_LIMIT));
+    if (inner && outer) {
+      lines.push({ inner, outer });
+    }
+  }
+
+  return lines;
+}
 
-  // Create the wall geometry using a tube/path approach
-  const wallGeometry = createHollowWallGeometry(points, params);
+/**
+ * Create the main cutter body from a shape (hollow walls with the handle and
+ * imprint ribs fused on)
+ */
+async function createCutterBody(
+  points: THREE.Vector2[],
+  params: CookieCutterParams,
+  details: DetailPath[] = []
+): Promise<THREE.Mesh> {
+  // Create the wall geometry from offsets of the outline
+  const wallGeometry = await createHollowWallGeometry(points, params, details);
 
   // Create material
   const material = new THREE.MeshStandardMaterial({
@@ -98,91 +238,185 @@ function createCutterBody(
 }
 
 /**
- * Create hollow wall geometry (just the walls, no top/bottom)
+ * Width of the reinforcing rim relative to the wall thickness
  */
-function createHollowWallGeometry(
+const RIM_WIDTH_FACTOR = 2;
+
+/**
+ * One horizontal slice of the wall profile. Offsets are measured from the
+ * outline, positive pointing outward.
+ */
+interface WallProfileLevel {
+  height: number;
+  innerOffset: number;
+  outerOffset: number;
+}
+
+/**
+ * Build the wall cross-section from the bottom cutting edge to the top rim.
+ *
+ * The inner face stays vertical so the cookie keeps the designed size. The
+ * outer face starts at `edgeThickness`, slopes out at `taperAngle` until the
+ * wall reaches `wallThickness`, and above `cuttingHeight` steps out to a
+ * reinforcing rim that runs up to `totalHeight`. The flat handle style adds
+ * a lip of `handleWidth` around the top of the rim.
+ */
+export function getWallProfile(params: CookieCutterParams): WallProfileLevel[] {
+  const wallThickness = params.wallThickness;
+  const innerOffset = -wallThickness / 2;
+  const edgeThickness = getEdgeThickness(params);
+
+  const levels: WallProfileLevel[] = [
+    { height: 0, innerOffset, outerOffset: innerOffset + edgeThickness },
+  ];
+
+  // Height at which the taper reaches the full wall thickness
+  const angleRad = (params.taperAngle * Math.PI) / 180;
+  const taperHeight = edgeThickness < wallThickness
+    ? (wallThickness - edgeThickness) / Math.tan(angleRad)
+    : 0;
+
+  if (taperHeight > 0 && taperHeight < params.cuttingHeight) {
+    levels.push({ height: taperHeight, innerOffset, outerOffset: wallThickness / 2 });
+  }
+
+  levels.push({ height: params.cuttingHeight, innerOffset, outerOffset: wallThickness / 2 });
+
+  if (params.totalHeight > params.cuttingHeight) {
+    const rimOffset = innerOffset + wallThickness * RIM_WIDTH_FACTOR;
+    levels.push({ height: params.cuttingHeight, innerOffset, outerOffset: rimOffset });
+    levels.push({ height: params.totalHeight, innerOffset, outerOffset: rimOffset });
+  }
+
+  // Flat handle: an outward lip around the top of the rim
+  if (hasHandle(params) && params.handleStyle === 'flat') {
+    const top = levels.pop()!;
+    const below = levels[levels.length - 1];
+    const flangeBottom = Math.max(top.height - FLANGE_THICKNESS, below.height);
+    const flangeOffset = top.outerOffset + params.handleWidth;
+
+    if (flangeBottom > below.height) {
+      levels.push({ height: flangeBottom, innerOffset, outerOffset: top.outerOffset });
+    }
+    levels.push({ height: flangeBottom, innerOffset, outerOffset: flangeOffset });
+    levels.push({ height: top.height, innerOffset, outerOffset: flangeOffset });
+  }
+
+  return levels;
+}
+
+/**
+ * Height of the top of the wall (rim included)
+ */
+export function getWallTopHeight(params: CookieCutterParams): number {
+  return Math.max(params.cuttingHeight, params.totalHeight);
+}
+
+/**
+ * Miter limit for wall offsets; sharper corners get squared off
+ */
+const WALL_MITER_LIMIT = 3;
+
+/**
+ * Step by which an outer wall offset is moved toward the outline when a
+ * neck splits it, in millimetres
+ */
+const NECK_STEP = 0.05;
+
+/**
+ * Create hollow wall geometry following the tapered wall profile.
+ *
+ * Every profile level is a Clipper offset of the outline, so walls keep a
+ * constant thickness and never cross themselves on concave corners or narrow
+ * necks. Neighbouring rings are stitched together and the bottom edge and
+ * top rim are triangulated as rings between the inner and outer offsets.
+ * Bars and imprint ribs replace the inner wall and top rim of the top band.
+ *
+ * A neck narrower than the wall splits the inner offset into lobes. Each
+ * lobe keeps its own inner face and is a hole of its own in the caps, while
+ * the wall fills the neck.
+ */
+async function createHollowWallGeometry(
   points: THREE.Vector2[],
-  params: CookieCutterParams
-): THREE.BufferGeometry {
+  params: CookieCutterParams,
+  details: DetailPath[] = []
+): Promise<THREE.BufferGeometry> {
   // Validate input
   if (!points || points.length < 3) {
     throw new Error('Need at least 3 points to create geometry');
   }
 
-  const vertices: number[] = [];
-  const indices: number[] = [];
-  const normals: number[] = [];
-
-  const wallThickness = params.wallThickness;
-  const height = params.cuttingHeight;
-  const numPoints = points.length;
-
-  // For each point, create inner and outer vertices
-  for (let i = 0; i < numPoints; i++) {
-    const p = points[i];
-    const pNext = points[(i + 1) % numPoints];
-    const pPrev = points[(i - 1 + numPoints) % numPoints];
-
-    // Calculate normal direction (perpendicular to the edge)
-    const dx = pNext.x - pPrev.x;
-    const dy = pNext.y - pPrev.y;
-    const len = Math.sqrt(dx * dx + dy * dy);
-
-    // Avoid division by zero - if points are too close, use default normal
-    let nx, ny;
-    if (len < 0.0001) {
-      nx = 0;
-      ny = 1;
-    } else {
-      // Normal pointing outward (perpendicular)
-      nx = -dy / len;
-      ny = dx / len;
+  const outline = points.map(p => ({ x: p.x, y: p.y }));
+  const profile = getWallProfile(params);
+
+  // Offset the outline once per distinct offset distance
+  const innerContours = new Map<number, THREE.Vector2[][]>();
+  const outerContours = new Map<number, THREE.Vector2[]>();
+  for (const level of profile) {
+    if (!innerContours.has(level.innerOffset)) {
+      const lobes = await offsetWallRings(outline, level.innerOffset);
+      if (lobes.length === 0) {
+        throw new Error('Shape is too small for the selected wall thickness');
+      }
+      innerContours.set(level.innerOffset, lobes);
     }
-
-    // Outer point (outward by half wall thickness)
-    const outerX = p.x + nx * wallThickness / 2;
-    const outerY = p.y + ny * wallThickness / 2;
-
-    // Inner point (inward by half wall thickness)
-    const innerX = p.x - nx * wallThickness / 2;
-    const innerY = p.y - ny * wallThickness / 2;
-
-    // Create vertices at bottom (y=0) and top (y=height)
-    // Bottom outer
-    vertices.push(outerX * params.scale, 0, outerY * params.scale);
-    // Top outer
-    vertices.push(outerX * params.scale, height, outerY * params.scale);
-    // Bottom inner
-    vertices.push(innerX * params.scale, 0, innerY * params.scale);
-    // Top inner
-    vertices.push(innerX * params.scale, height, innerY * params.scale);
-
-    // Normals (will be recalculated)
-    for (let j = 0; j < 4; j++) {
-      normals.push(0, 1, 0);
+    if (!outerContours.has(level.outerOffset)) {
+      outerContours.set(level.outerOffset, await offsetOuterWall(outline, level.outerOffset));
     }
   }
 
-  // Create faces
-  for (let i = 0; i < numPoints; i++) {
-    const i0 = i * 4;
-    const i1 = ((i + 1) % numPoints) * 4;
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  const addRing = (ring: THREE.Vector2[], height: number) => pushRing(ring, height, vertices);
 
-    // Outer wall (2 triangles)
-    indices.push(i0, i0 + 1, i1);
-    indices.push(i1, i0 + 1, i1 + 1);
+  const top = profile[profile.length - 1];
+  const handle = await planHandleStructure(
+    profile, innerContours.get(top.innerOffset)!, outerContours.get(top.outerOffset)!, details, params
+  );
 
-    // Inner wall (2 triangles)
-    indices.push(i0 + 2, i1 + 2, i0 + 3);
-    indices.push(i1 + 2, i1 + 3, i0 + 3);
+  // The bars start at their own level within the top band
+  if (handle && !profile.some(level => level.height === handle.bottom)) {
+    profile.splice(profile.length - 1, 0, { ...top, height: handle.bottom });
+  }
+
+  // Outer and inner faces between consecutive levels
+  for (let l = 0; l < profile.length - 1; l++) {
+    const lower = profile[l];
+    const upper = profile[l + 1];
+    const flat = lower.height === upper.height;
+
+    if (!(flat && lower.outerOffset === upper.outerOffset)) {
+      const outerLower = outerContours.get(lower.outerOffset)!;
+      const outerUpper = outerContours.get(upper.outerOffset)!;
+      stitchRings(
+        outerLower, addRing(outerLower, lower.height),
+        outerUpper, addRing(outerUpper, upper.height),
+        indices, false
+      );
+    }
 
-    // Top rim (connecting outer and inner at top)
-    indices.push(i0 + 1, i0 + 3, i1 + 1);
-    indices.push(i1 + 1, i0 + 3, i1 + 3);
+    // The inner face keeps one offset all the way up, so the lobes line up
+    const underHandle = handle !== null && lower.height >= handle.bottom;
+    if (!(flat && lower.innerOffset === upper.innerOffset) && !underHandle) {
+      const upperLobes = innerContours.get(upper.innerOffset)!;
+      innerContours.get(lower.innerOffset)!.forEach((innerLower, k) => {
+        const innerUpper = upperLobes[k];
+        stitchRings(
+          innerLower, addRing(innerLower, lower.height),
+          innerUpper, addRing(innerUpper, upper.height),
+          indices, true
+        );
+      });
+    }
+  }
 
-    // Bottom cutting edge (connecting outer and inner at bottom)
-    indices.push(i0, i1, i0 + 2);
-    indices.push(i1, i1 + 2, i0 + 2);
+  // Bottom cutting edge and top rim (or handle structure)
+  const bottom = profile[0];
+  capRing(outerContours.get(bottom.outerOffset)!, innerContours.get(bottom.innerOffset)!, bottom.height, false, vertices, indices);
+  if (handle) {
+    addHandleStructure(handle, vertices, indices);
+  } else {
+    capRing(outerContours.get(top.outerOffset)!, innerContours.get(top.innerOffset)!, top.height, true, vertices, indices);
   }
 
   const geometry = new THREE.BufferGeometry();
@@ -190,7 +424,161 @@ function createHollowWallGeometry(
   geometry.setIndex(indices);
   geometry.computeVertexNormals();
 
-  return geometry;
+  // Bars and ribs meet the wall at points the wall rings don't share; weld them shut
+  return handle ? repairGeometry(geometry) : geometry;
+}
+
+/**
+ * Every ring of an outline offset, counter-clockwise so stitching is consistent
+ */
+async function offsetWallRings(outline: { x: number; y: number }[], offset: number): Promise<THREE.Vector2[][]> {
+  const paths = await offsetPath(outline, offset, 'miter', WALL_MITER_LIMIT);
+  return paths
+    .filter(path => path.length >= 3)
+    .map(path => {
+      const ring = path.map(p => new THREE.Vector2(p.x, p.y));
+      return THREE.ShapeUtils.isClockWise(ring) ? ring.reverse() : ring;
+    });
+}
+
+/**
+ * Outer face of the wall at an offset. It has to stay one ring around every
+ * inner lobe, so where a neck splits the offset (only possible inside the
+ * outline, near a thin cutting edge) the offset is widened toward the outline
+ * until the neck holds together.
+ */
+async function offsetOuterWall(outline: { x: number; y: number }[], offset: number): Promise<THREE.Vector2[]> {
+  for (let distance = offset; ; distance = Math.min(0, distance + NECK_STEP)) {
+    const rings = await offsetWallRings(outline, distance);
+    if (rings.length === 1 || distance >= 0) {
+      const ring = largestPath(rings) as THREE.Vector2[] | null;
+      if (!ring) {
+        throw new Error('Shape is too small for the selected wall thickness');
+      }
+      return ring;
+    }
+  }
+}
+
+/**
+ * Append a ring of vertices at a height, returning the index of its first vertex
+ */
+function pushRing(ring: THREE.Vector2[], height: number, vertices: number[]): number {
+  const base = vertices.length / 3;
+  for (const p of ring) {
+    vertices.push(p.x, height, p.y);
+  }
+  return base;
+}
+
+/**
+ * Stitch two counter-clockwise rings into a band of triangles.
+ *
+ * The rings may have different point counts (offsets add and drop corners),
+ * so the band is zipped together by always advancing along the ring whose
+ * next point gives the shorter diagonal.
+ */
+function stitchRings(
+  lower: THREE.Vector2[],
+  lowerBase: number,
+  upper: THREE.Vector2[],
+  upperBase: number,
+  indices: number[],
+  flip: boolean
+): void {
+  const n = lower.length;
+  const m = upper.length;
+
+  // Start the upper ring at the point closest to the first lower point
+  let start = 0;
+  let bestDistance = Infinity;
+  for (let j = 0; j < m; j++) {
+    const d = upper[j].distanceToSquared(lower[0]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      start = j;
+    }
+  }
+
+  const lowerIndex = (i: number) => lowerBase + (i % n);
+  const upperIndex = (j: number) => upperBase + ((start + j) % m);
+  const upperPoint = (j: number) => upper[(start + j) % m];
+
+  const pushTriangle = (a: number, b: number, c: number) => {
+    if (flip) {
+      indices.push(a, c, b);
+    } else {
+      indices.push(a, b, c);
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const advanceLower = j >= m || (i < n &&
+      lower[(i + 1) % n].distanceToSquared(upperPoint(j)) <
+      lower[i % n].distanceToSquared(upperPoint(j + 1)));
+
+    if (advanceLower) {
+      pushTriangle(lowerIndex(i), upperIndex(j), lowerIndex(i + 1));
+      i++;
+    } else {
+      pushTriangle(lowerIndex(i), upperIndex(j), upperIndex(j + 1));
+      j++;
+    }
+  }
+}
+
+/**
+ * Triangulate a flat face between an outer contour and its holes
+ */
+function capRing(
+  outer: THREE.Vector2[],
+  holes: THREE.Vector2[][],
+  height: number,
+  facingUp: boolean,
+  vertices: number[],
+  indices: number[]
+): void {
+  const base = vertices.length / 3;
+  const ringPoints = [outer, ...holes].flat();
+  for (const p of ringPoints) {
+    vertices.push(p.x, height, p.y);
+  }
+
+  const triangles = THREE.ShapeUtils.triangulateShape(outer, holes);
+
+  // Triangulation winds every triangle the same way; read it from the
+  // largest one since slivers along collinear points have no reliable sign
+  let winding = 0;
+  for (const [a, b, c] of triangles) {
+    const area = THREE.ShapeUtils.area([ringPoints[a], ringPoints[b], ringPoints[c]]);
+    if (Math.abs(area) > Math.abs(winding)) {
+      winding = area;
+    }
+  }
+
+  // Counter-clockwise in the XY plane faces down once mapped onto XZ
+  const reverse = (winding > 0) === facingUp;
+  for (const [a, b, c] of triangles) {
+    if (reverse) {
+      indices.push(base + a, base + c, base + b);
+    } else {
+      indices.push(base + a, base + b, base + c);
+    }
+  }
+}
+
+/**
+ * Thickness the cutting edge is built with. The taper spreads over the
+ * cutting height, so a shallow taper can't thin the wall all the way down to
+ * `edgeThickness`, and the edge never gets thicker than the wall.
+ */
+export function getEdgeThickness(params: CookieCutterParams): number {
+  return Math.min(
+    params.wallThickness,
+    Math.max(params.edgeThickness, params.wallThickness - calcTaperOffset(params))
+  );
 }
 
 /**
@@ -202,81 +590,374 @@ function calcTaperOffset(params: CookieCutterParams): number {
 }
 
 /**
- * Create a handle for the cookie cutter
+ * Thickness of the flat flange lip that follows the top rim
+ */
+const FLANGE_THICKNESS = 2;
+
+/**
+ * Depth of the bars that carry knobs and imprint ribs
+ */
+const SUPPORT_BAR_DEPTH = 3;
+
+/**
+ * Width of the bridge bar under a knob, and of the bars holding imprint ribs
+ */
+const KNOB_BAR_WIDTH = 10;
+const DETAIL_BAR_WIDTH = 4;
+
+/**
+ * Thinnest bridge bar that still prints reliably
+ */
+const MIN_BAR_DEPTH = 2;
+
+/**
+ * Minimum distance between a knob and the edge of its bar
+ */
+const KNOB_CLEARANCE = 0.2;
+
+/**
+ * Gap kept between imprint ribs and the cutting wall below the bars
+ */
+const RIB_WALL_GAP = 0.5;
+
+/**
+ * Lowest an imprint rib may reach above the cutting edge
+ */
+const MIN_RIB_HEIGHT = 0.5;
+
+/**
+ * Check whether the parameters ask for a handle
+ */
+function hasHandle(params: CookieCutterParams): boolean {
+  return params.enableHandle && params.handleStyle !== 'none';
+}
+
+/**
+ * Bars, imprint ribs and knob fused into the top band of the wall.
+ *
+ * Between `bottom` and `top` the wall, bars and ribs form one prism:
+ * `capPaths` is their union (outer contours and holes), and `undersides` are
+ * the parts hanging over the interior. Imprint ribs continue below the bars
+ * down to `ribs.bottom`.
+ */
+interface HandleStructure {
+  bottom: number;
+  top: number;
+  capPaths: { x: number; y: number }[][];
+  undersides: { x: number; y: number }[][];
+  ribs: { bottom: number; paths: { x: number; y: number }[][] } | null;
+  knob: { base: THREE.Vector2[]; tip: THREE.Vector2[]; height: number } | null;
+}
+
+/**
+ * Direction and extents of the widest axis across an outline.
+ *
+ * `dir` runs along the widest span, `perp` across it; `min`/`max` are the
+ * projections of the outline onto each axis.
+ */
+interface OutlineAxis {
+  dir: THREE.Vector2;
+  perp: THREE.Vector2;
+  minAlong: number;
+  maxAlong: number;
+  minAcross: number;
+  maxAcross: number;
+}
+
+/**
+ * Find the widest axis of an outline by sampling directions in 1° steps
+ */
+function findWidestAxis(points: { x: number; y: number }[]): OutlineAxis {
+  let best: OutlineAxis | null = null;
+
+  for (let degrees = 0; degrees < 180; degrees++) {
+    const angle = (degrees * Math.PI) / 180;
+    const dir = new THREE.Vector2(Math.cos(angle), Math.sin(angle));
+    const perp = new THREE.Vector2(-dir.y, dir.x);
+
+    const axis: OutlineAxis = {
+      dir, perp,
+      minAlong: Infinity, maxAlong: -Infinity,
+      minAcross: Infinity, maxAcross: -Infinity,
+    };
+    for (const p of points) {
+      const along = p.x * dir.x + p.y * dir.y;
+      const across = p.x * perp.x + p.y * perp.y;
+      axis.minAlong = Math.min(axis.minAlong, along);
+      axis.maxAlong = Math.max(axis.maxAlong, along);
+      axis.minAcross = Math.min(axis.minAcross, across);
+      axis.maxAcross = Math.max(axis.maxAcross, across);
+    }
+
+    if (!best || axis.maxAlong - axis.minAlong > best.maxAlong - best.minAlong) {
+      best = axis;
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Build bar footprints along the axis at the given cross positions, clipped
+ * to the outer edge of the rim so each end lands on the wall.
  */
-function createHandle(
-  shape: THREE.Shape,
+async function createBarFootprints(
+  rim: { x: number; y: number }[],
+  axis: OutlineAxis,
+  positions: number[],
+  barWidth: number
+): Promise<{ x: number; y: number }[][]> {
+  const halfWidth = barWidth / 2;
+
+  const strips = positions.map(across => {
+    const corner = (along: number, offset: number) => ({
+      x: axis.dir.x * along + axis.perp.x * (across + offset),
+      y: axis.dir.y * along + axis.perp.y * (across + offset),
+    });
+
+    // Overshoot the outline so Clipper trims the ends to the rim
+    const from = axis.minAlong - 1;
+    const to = axis.maxAlong + 1;
+    return [
+      corner(from, -halfWidth),
+      corner(to, -halfWidth),
+      corner(to, halfWidth),
+      corner(from, halfWidth),
+    ];
+  });
+
+  return intersectPaths(strips, [rim]);
+}
+
+/**
+ * Turn detail lines into blunt rib footprints kept clear of the wall.
+ *
+ * Closed details become a band of `wallThickness` along the line (or a solid
+ * dot when too small for a band); open details become a round-ended stroke.
+ */
+async function createImprintRibs(
+  details: DetailPath[],
+  inner: THREE.Vector2[][],
   params: CookieCutterParams
-): THREE.Mesh | null {
-  let handleGeometry: THREE.BufferGeometry;
+): Promise<{ x: number; y: number }[][]> {
+  const width = params.wallThickness;
+  const bands: { x: number; y: number }[][] = [];
+
+  for (const detail of details) {
+    const points = detail.points;
+    if (points.length < 2) continue;
+
+    if (detail.closed && points.length >= 3) {
+      const outside = await offsetPath(points, width / 2, 'round');
+      const inside = await offsetPath(points, -width / 2, 'round');
+      bands.push(...await differencePaths(outside, inside));
+    } else {
+      bands.push(...await offsetOpenPath(points, width));
+    }
+  }
+
+  if (bands.length === 0) return [];
+
+  const clearance = await offsetPaths(inner, -RIB_WALL_GAP, 'miter', WALL_MITER_LIMIT);
+  return intersectPaths(await unionPaths(bands), clearance);
+}
+
+/**
+ * Create the base and tip rings of a knob handle centered on the origin
+ */
+function createKnobRings(params: CookieCutterParams): { base: THREE.Vector2[]; tip: THREE.Vector2[] } | null {
+  const polygon = (sides: number, radius: number, rotation: number) =>
+    Array.from({ length: sides }, (_, i) => {
+      const angle = rotation + (i / sides) * Math.PI * 2;
+      return new THREE.Vector2(Math.cos(angle) * radius, Math.sin(angle) * radius);
+    });
 
   switch (params.handleStyle) {
     case 'round':
-      handleGeometry = new THREE.CylinderGeometry(
-        3,
-        4,
-        params.handleHeight,
-        16
-      );
-      break;
+      return { base: polygon(16, 4, 0), tip: polygon(16, 3, 0) };
 
     case 'chamfered':
-      handleGeometry = new THREE.CylinderGeometry(
-        2,
-        4,
-        params.handleHeight,
-        4
-      );
-      break;
+      return { base: polygon(4, 4, 0), tip: polygon(4, 2, 0) };
 
     case 'rectangular':
-      handleGeometry = new THREE.BoxGeometry(
-        8,
-        params.handleHeight,
-        8
-      );
-      break;
-
-    case 'flat':
-      // Flat top lip
-      const flatShape = new THREE.Shape();
-      flatShape.moveTo(-5, -5);
-      flatShape.lineTo(5, -5);
-      flatShape.lineTo(5, 5);
-      flatShape.lineTo(-5, 5);
-      flatShape.lineTo(-5, -5);
-
-      handleGeometry = new THREE.ExtrudeGeometry(flatShape, {
-        depth: 3,
-        bevelEnabled: true,
-        bevelThickness: 0.5,
-        bevelSize: 0.5,
-        bevelSegments: 2,
-      });
-      break;
+      return { base: polygon(4, 4 * Math.SQRT2, Math.PI / 4), tip: polygon(4, 4 * Math.SQRT2, Math.PI / 4) };
 
     default:
       return null;
   }
+}
 
-  const material = new THREE.MeshStandardMaterial({
-    color: 0xffa726,
-    roughness: 0.5,
-    metalness: 0.1,
-  });
+/**
+ * Plan the bars, imprint ribs and knob fused into the top band of the wall.
+ *
+ * Bridge styles span the interior with one or more bars flush with the top
+ * of the rim. Knob styles sit on a shallow bridge bar so they are carried by
+ * the walls instead of floating over the middle of the shape. The flat style
+ * is part of the wall profile and needs no bars. Imprint ribs hang from the
+ * bars; details no bar crosses get a bar of their own.
+ */
+async function planHandleStructure(
+  profile: WallProfileLevel[],
+  inner: THREE.Vector2[][],
+  outer: THREE.Vector2[],
+  details: DetailPath[],
+  params: CookieCutterParams
+): Promise<HandleStructure | null> {
+  // Collinear points left by Clipper would triangulate into zero-area ears
+  const clean = (paths: { x: number; y: number }[][]) =>
+    Promise.all(paths.map(path => cleanPath(path)));
+
+  const wantsBars = hasHandle(params) && params.handleStyle !== 'flat';
+  const ribPaths = details.length > 0 ? await clean(await createImprintRibs(details, inner, params)) : [];
+  if (!wantsBars && ribPaths.length === 0) {
+    return null;
+  }
 
-  const handle = new THREE.Mesh(handleGeometry, material);
+  const isBridge = params.handleStyle === 'bridge' || params.handleStyle === 'multiBridge';
 
-  // Position handle at center (0,0) and on top of the cutter
-  // Since the cutter is now centered at 0,0 and sits at Y=0,
-  // the handle should be at Y = cuttingHeight + handleHeight/2
-  handle.position.set(
-    0,
-    params.cuttingHeight + params.handleHeight / 2,
-    0
-  );
+  // Bars live in the top band where the wall cross-section no longer changes
+  const topLevel = profile[profile.length - 1];
+  let bandStart = topLevel.height;
+  for (let l = profile.length - 2; l >= 0; l--) {
+    const level = profile[l];
+    if (level.innerOffset !== topLevel.innerOffset || level.outerOffset !== topLevel.outerOffset) break;
+    bandStart = level.height;
+  }
 
-  return handle;
+  // Keep bars above the cutting zone, flush with the top of the rim
+  const top = topLevel.height;
+  const depth = wantsBars && isBridge ? params.handleHeight : SUPPORT_BAR_DEPTH;
+  let bottom = Math.max(top - depth, params.cuttingHeight, bandStart);
+  if (top - bottom < MIN_BAR_DEPTH) {
+    bottom = Math.max(bandStart, top - MIN_BAR_DEPTH);
+  }
+  if (bottom >= top) return null;
+
+  const axis = findWidestAxis(outer);
+  const handleBars: { x: number; y: number }[][] = [];
+  if (wantsBars) {
+    // Spread bars evenly across the shape
+    const barCount = params.handleStyle === 'multiBridge' ? Math.max(2, params.handleBarCount) : 1;
+    const positions = Array.from({ length: barCount }, (_, k) =>
+      axis.minAcross + ((k + 1) / (barCount + 1)) * (axis.maxAcross - axis.minAcross)
+    );
+    handleBars.push(...await createBarFootprints(
+      outer, axis, positions, isBridge ? params.handleWidth : KNOB_BAR_WIDTH
+    ));
+  }
+
+  // Every rib needs a bar to hang from
+  const footprints = [...handleBars];
+  for (const rib of ribPaths.filter(path => pathArea(path) > 0)) {
+    const crossed = await intersectPaths([rib], footprints);
+    if (crossed.some(path => Math.abs(pathArea(path)) > 0)) continue;
+
+    const center = pathCentroid(rib);
+    const across = center.x * axis.perp.x + center.y * axis.perp.y;
+    footprints.push(...await createBarFootprints(outer, axis, [across], DETAIL_BAR_WIDTH));
+  }
+  if (footprints.length === 0) return null;
+
+  // Ribs only reach below the bars when the imprint is deep enough
+  const ribBottom = Math.max(MIN_RIB_HEIGHT, params.doughThickness - params.imprintDepth);
+  const ribs = ribPaths.length > 0 && ribBottom < bottom
+    ? { bottom: ribBottom, paths: ribPaths }
+    : null;
+
+  const rimPaths = await differencePaths([outer], inner);
+  const capPaths = await clean(await unionPaths([...rimPaths, ...footprints, ...ribPaths]));
+  const overhangs = await intersectPaths([...footprints, ...ribPaths], inner);
+  const undersides = await clean(ribs ? await differencePaths(overhangs, ribs.paths) : overhangs);
+
+  // Center the knob on the longest handle bar, if it fits on the bar
+  let knob: HandleStructure['knob'] = null;
+  const rings = handleBars.length > 0 ? createKnobRings(params) : null;
+  if (rings) {
+    const center = pathCentroid(largestPath(handleBars)!);
+    const base = rings.base.map(p => p.clone().add(new THREE.Vector2(center.x, center.y)));
+    const tip = rings.tip.map(p => p.clone().add(new THREE.Vector2(center.x, center.y)));
+
+    const overhang = await differencePaths(await offsetPath(base, KNOB_CLEARANCE, 'miter'), capPaths);
+    if (overhang.every(path => Math.abs(pathArea(path)) < 1e-3)) {
+      knob = { base, tip, height: params.handleHeight };
+    }
+  }
+
+  return { bottom, top, capPaths, undersides, ribs, knob };
+}
+
+/**
+ * Group Clipper output into counter-clockwise outer rings with their holes
+ */
+function groupRegions(paths: { x: number; y: number }[][]): { outer: THREE.Vector2[]; holes: THREE.Vector2[][] }[] {
+  const toRing = (path: { x: number; y: number }[]) => {
+    const ring = path.map(p => new THREE.Vector2(p.x, p.y));
+    return THREE.ShapeUtils.isClockWise(ring) ? ring.reverse() : ring;
+  };
+
+  const outers = paths.filter(path => pathArea(path) > 0);
+  const holes = paths.filter(path => pathArea(path) < 0);
+
+  return outers.map(outer => ({
+    outer: toRing(outer),
+    holes: holes.filter(hole => isPointInPath(hole[0], outer)).map(toRing),
+  }));
+}
+
+/**
+ * Add the faces of the handle structure: the top cap across rim, bars and
+ * ribs, the walls of the openings between them, the undersides, the ribs
+ * hanging below the bars and the knob.
+ */
+function addHandleStructure(
+  handle: HandleStructure,
+  vertices: number[],
+  indices: number[]
+): void {
+  for (const { outer, holes } of groupRegions(handle.capPaths)) {
+    const capHoles = [...holes];
+    if (handle.knob && isPointInPath(handle.knob.base[0], outer)) {
+      capHoles.push(handle.knob.base);
+    }
+    capRing(outer, capHoles, handle.top, true, vertices, indices);
+
+    // Openings between the bars are lined like the inner wall
+    for (const hole of holes) {
+      stitchRings(
+        hole, pushRing(hole, handle.bottom, vertices),
+        hole, pushRing(hole, handle.top, vertices),
+        indices, true
+      );
+    }
+  }
+
+  for (const { outer, holes } of groupRegions(handle.undersides)) {
+    capRing(outer, holes, handle.bottom, false, vertices, indices);
+  }
+
+  if (handle.ribs) {
+    const { bottom } = handle.ribs;
+    for (const { outer, holes } of groupRegions(handle.ribs.paths)) {
+      for (const [ring, flip] of [[outer, false], ...holes.map(hole => [hole, true])] as [THREE.Vector2[], boolean][]) {
+        stitchRings(
+          ring, pushRing(ring, bottom, vertices),
+          ring, pushRing(ring, handle.bottom, vertices),
+          indices, flip
+        );
+      }
+      capRing(outer, holes, bottom, false, vertices, indices);
+    }
+  }
+
+  if (handle.knob) {
+    const { base, tip, height } = handle.knob;
+    stitchRings(
+      base, pushRing(base, handle.top, vertices),
+      tip, pushRing(tip, handle.top + height, vertices),
+      indices, false
+    );
+    capRing(tip, [], handle.top + height, true, vertices, indices);
+  }
 }
 
 /**
@@ -381,27 +1062,17 @@ function mergeGeometries(geometries: THREE.BufferGeometry[]): THREE.BufferGeomet
 /**
  * Create a simple cookie cutter from a circle (for testing)
  */
-export function createTestCookieCutter(params: CookieCutterParams): THREE.Mesh {
+export async function createTestCookieCutter(params: CookieCutterParams): Promise<THREE.Mesh> {
   const shape = new THREE.Shape();
   shape.absarc(0, 0, 20, 0, Math.PI * 2, false);
 
-  const mesh = createCutterBody(shape, params);
-
-  // Apply rotation and positioning like in generateCookieCutter
-  mesh.rotation.x = Math.PI / 2;
+  const points = shape.getPoints().map(p => p.multiplyScalar(params.scale));
+  const mesh = await createCutterBody(points, params);
 
-  // Position so cutting edge is at y=0
+  // Position so cutting edge is at y=0, centered like in generateCookieCutter
   const box = new THREE.Box3().setFromObject(mesh);
   const center = box.getCenter(new THREE.Vector3());
-  mesh.position.set(-center.x, -box.min.y, -center.z);
-
-  // Update matrix after transformations
-  mesh.updateMatrix();
-  mesh.geometry.applyMatrix4(mesh.matrix);
-  mesh.position.set(0, 0, 0);
-  mesh.rotation.set(0, 0, 0);
-  mesh.scale.set(1, 1, 1);
-  mesh.updateMatrix();
+  mesh.geometry.translate(-center.x, -box.min.y, -center.z);
 
   return mesh;
 }
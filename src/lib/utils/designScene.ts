@@ -0,0 +1,305 @@
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import type {
+  AlignMode,
+  DesignScene,
+  DistributeAxis,
+  SceneElement,
+  SceneElementRole,
+  SceneElementSource,
+  SceneTransform,
+} from '../types/Scene';
+import { parseSVGPaths } from './svgParser';
+import { isStrokeOnly, getStrokeLines, getStrokeWidth } from './svgStrokes';
+import { pathToSVGData, getPathsBounds, type PathPoint } from './svgPathExtractor';
+
+export type SceneBounds = ReturnType<typeof getPathsBounds>;
+
+/**
+ * A run of points drawn as one subpath
+ */
+export interface SceneRing {
+  points: PathPoint[];
+  closed: boolean;
+  strokeWidth?: number; // stroke-only lines, in the same units as the points
+}
+
+/**
+ * Rings written as one SVG path element: a filled shape with its holes, or
+ * a single stroked line
+ */
+export type ScenePart = SceneRing[];
+
+/**
+ * Share of the artboard a newly added element may cover
+ */
+const NEW_ELEMENT_FIT = 0.6;
+
+/**
+ * Stroke width (in mm) of the detail lines in the compiled SVG
+ */
+const DETAIL_STROKE_WIDTH = 0.5;
+
+/**
+ * Decimal places kept for coordinates written into the compiled SVG
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Number of element sources kept parsed while the layout is edited
+ */
+const GEOMETRY_CACHE_SIZE = 32;
+
+const geometryCache = new Map<string, ScenePart[]>();
+
+/**
+ * Geometry of an element source in its own coordinates. Filled shapes keep
+ * their holes; stroke-only paths keep their open ends.
+ */
+function getSourceParts(svgData: string): ScenePart[] {
+  let parts = geometryCache.get(svgData);
+  if (parts) return parts;
+
+  parts = [];
+  for (const path of parseSVGPaths(svgData)) {
+    if (isStrokeOnly(path)) {
+      const strokeWidth = getStrokeWidth(path);
+      for (const line of getStrokeLines(path)) {
+        parts.push([{ ...line, strokeWidth }]);
+      }
+      continue;
+    }
+
+    for (const shape of SVGLoader.createShapes(path)) {
+      parts.push([shape, ...shape.holes].map(ring => ({
+        points: ring.getPoints().map(p => ({ x: p.x, y: p.y })),
+        closed: true,
+      })));
+    }
+  }
+
+  geometryCache.set(svgData, parts);
+  if (geometryCache.size > GEOMETRY_CACHE_SIZE) {
+    geometryCache.delete(geometryCache.keys().next().value!);
+  }
+  return parts;
+}
+
+/**
+ * Bounds of an element source in its own coordinates
+ */
+function getSourceBounds(svgData: string): SceneBounds {
+  return getPathsBounds(getSourceParts(svgData).flat().map(ring => ring.points));
+}
+
+/**
+ * Place points from an element's own coordinates on the artboard
+ */
+function applyTransform(points: PathPoint[], transform: SceneTransform, origin: PathPoint): PathPoint[] {
+  const angle = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle) * transform.scale;
+  const sin = Math.sin(angle) * transform.scale;
+
+  return points.map(p => {
+    const dx = p.x - origin.x;
+    const dy = p.y - origin.y;
+    return {
+      x: transform.x + dx * cos - dy * sin,
+      y: transform.y + dx * sin + dy * cos,
+    };
+  });
+}
+
+/**
+ * An element's geometry placed on the artboard
+ */
+export function getElementParts(element: SceneElement): ScenePart[] {
+  const bounds = getSourceBounds(element.svgData);
+  const origin = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+
+  return getSourceParts(element.svgData).map(part =>
+    part.map(ring => ({
+      ...ring,
+      points: applyTransform(ring.points, element.transform, origin),
+      ...(ring.strokeWidth !== undefined && { strokeWidth: ring.strokeWidth * element.transform.scale }),
+    }))
+  );
+}
+
+/**
+ * Axis-aligned bounds of an element as placed on the artboard
+ */
+export function getElementBounds(element: SceneElement): SceneBounds {
+  return getPathsBounds(getElementParts(element).flat().map(ring => ring.points));
+}
+
+/**
+ * Combined bounds of several elements
+ */
+export function getSelectionBounds(elements: SceneElement[]): SceneBounds {
+  const corners = elements.map(getElementBounds).map(b => [
+    { x: b.minX, y: b.minY },
+    { x: b.maxX, y: b.maxY },
+  ]);
+  return getPathsBounds(corners);
+}
+
+/**
+ * Create an element centred on the artboard, shrunk to fit it when its
+ * source is larger
+ */
+export function createSceneElement(
+  scene: DesignScene,
+  source: SceneElementSource,
+  svgData: string,
+  name: string,
+  role: SceneElementRole = 'outline'
+): SceneElement {
+  const bounds = getSourceBounds(svgData);
+  if (!isFinite(bounds.width) || !isFinite(bounds.height)) {
+    throw new Error('No paths found in SVG');
+  }
+
+  const fit = NEW_ELEMENT_FIT * Math.min(
+    scene.width / Math.max(bounds.width, 1e-6),
+    scene.height / Math.max(bounds.height, 1e-6)
+  );
+
+  return {
+    id: `element_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    source,
+    svgData,
+    transform: { x: scene.width / 2, y: scene.height / 2, rotation: 0, scale: Math.min(1, fit) },
+    role,
+    visible: true,
+  };
+}
+
+/**
+ * Move an element's transform by a bounds offset
+ */
+function moveBy(element: SceneElement, dx: number, dy: number): SceneElement {
+  if (dx === 0 && dy === 0) return element;
+  return { ...element, transform: { ...element.transform, x: element.transform.x + dx, y: element.transform.y + dy } };
+}
+
+/**
+ * Align elements by their bounds. Several elements align to the bounds of
+ * the group; a single element aligns to the artboard.
+ */
+export function alignElements(scene: DesignScene, ids: string[], mode: AlignMode): DesignScene {
+  const selected = scene.elements.filter(element => ids.includes(element.id));
+  if (selected.length === 0) return scene;
+
+  const target = selected.length > 1
+    ? getSelectionBounds(selected)
+    : { minX: 0, minY: 0, maxX: scene.width, maxY: scene.height, width: scene.width, height: scene.height };
+
+  return {
+    ...scene,
+    elements: scene.elements.map(element => {
+      if (!ids.includes(element.id)) return element;
+
+      const bounds = getElementBounds(element);
+      switch (mode) {
+        case 'left':
+          return moveBy(element, target.minX - bounds.minX, 0);
+        case 'centerX':
+          return moveBy(element, (target.minX + target.maxX - bounds.minX - bounds.maxX) / 2, 0);
+        case 'right':
+          return moveBy(element, target.maxX - bounds.maxX, 0);
+        case 'top':
+          return moveBy(element, 0, target.minY - bounds.minY);
+        case 'centerY':
+          return moveBy(element, 0, (target.minY + target.maxY - bounds.minY - bounds.maxY) / 2);
+        case 'bottom':
+          return moveBy(element, 0, target.maxY - bounds.maxY);
+      }
+    }),
+  };
+}
+
+/**
+ * Space elements evenly between the first and last along an axis, leaving
+ * equal gaps between their bounds
+ */
+export function distributeElements(scene: DesignScene, ids: string[], axis: DistributeAxis): DesignScene {
+  const horizontal = axis === 'horizontal';
+  const placed = scene.elements
+    .filter(element => ids.includes(element.id))
+    .map(element => {
+      const bounds = getElementBounds(element);
+      return {
+        id: element.id,
+        start: horizontal ? bounds.minX : bounds.minY,
+        end: horizontal ? bounds.maxX : bounds.maxY,
+      };
+    })
+    .sort((a, b) => a.start + a.end - b.start - b.end);
+  if (placed.length < 3) return scene;
+
+  const first = placed[0];
+  const last = placed[placed.length - 1];
+  const occupied = placed.reduce((sum, item) => sum + item.end - item.start, 0);
+  const gap = (last.end - first.start - occupied) / (placed.length - 1);
+
+  const offsets = new Map<string, number>();
+  let cursor = first.start;
+  for (const item of placed) {
+    offsets.set(item.id, cursor - item.start);
+    cursor += item.end - item.start + gap;
+  }
+
+  return {
+    ...scene,
+    elements: scene.elements.map(element => {
+      const offset = offsets.get(element.id) ?? 0;
+      return horizontal ? moveBy(element, offset, 0) : moveBy(element, 0, offset);
+    }),
+  };
+}
+
+/**
+ * Path data of a part, with rounded coordinates
+ */
+function partToPathData(part: ScenePart): string {
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  return part
+    .map(ring => pathToSVGData(ring.points.map(p => ({ x: round(p.x), y: round(p.y) })), ring.closed))
+    .join(' ');
+}
+
+/**
+ * Compile a layout into the SVG the generators read. One user unit is one
+ * millimetre of the artboard. Outline elements are written as filled
+ * paths, with their stroke-only lines stroked at their scaled width; detail
+ * elements as stroked lines in groups with detail ids, which every detail
+ * mode but "cut every path" reads as imprint details.
+ */
+export function compileScene(scene: DesignScene): string {
+  const visible = scene.elements.filter(element => element.visible);
+  if (visible.length === 0) {
+    throw new Error('The layout has no visible elements');
+  }
+
+  const groups = visible.map(element => {
+    const parts = getElementParts(element);
+    const paths = parts.map(part => `    <path d="${partToPathData(part)}"/>`);
+    if (element.role === 'detail') {
+      return `  <g id="detail-${element.id}" fill="none" stroke="#808080" stroke-width="${DETAIL_STROKE_WIDTH}">\n` +
+        `${paths.join('\n')}\n  </g>`;
+    }
+
+    const outlinePaths = parts.map((part, i) => {
+      const strokeWidth = part[0]?.strokeWidth;
+      return strokeWidth === undefined
+        ? paths[i]
+        : `    <path d="${partToPathData(part)}" fill="none" stroke="black" stroke-width="${+strokeWidth.toFixed(COORDINATE_PRECISION)}" ` +
+          `stroke-linecap="round" stroke-linejoin="round"/>`;
+    });
+    return `  <g id="${element.id}" fill="black" fill-rule="evenodd">\n${outlinePaths.join('\n')}\n  </g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}mm" height="${scene.height}mm" ` +
+    `viewBox="0 0 ${scene.width} ${scene.height}">\n${groups.join('\n')}\n</svg>`;
+}
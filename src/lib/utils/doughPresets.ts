@@ -0,0 +1,158 @@
+import type { CookieCutterParams, DoughType } from '../types/CookieCutter';
+
+export interface DoughPreset {
+  id: DoughType;
+  name: string;
+  description: string;
+  settings: {
+    doughThickness: number; // mm, as usually rolled
+    cuttingHeight: number; // mm
+    totalHeight: number; // mm
+    wallThickness: number; // mm
+    edgeThickness: number; // mm
+    taperAngle: number; // degrees
+    imprintDepth: number; // mm
+    embossDepth: number; // mm
+    stampDepth: number; // mm
+  };
+  limits: {
+    minClearance: number; // mm the cutting wall must reach past the dough
+    maxCuttingHeight: number; // mm, taller only costs material
+    maxEdgeThickness: number; // mm, blunter edges squash or tear the dough
+    draftAngle: number; // degrees of taper the dough needs to release
+    maxTaperAngle: number; // degrees, steeper flares distort the cut
+    reliefDepth: [number, number]; // mm, emboss and stamp depths that read in this dough
+  };
+  recommendations: string[];
+}
+
+export const DOUGH_PRESETS: DoughPreset[] = [
+  {
+    id: 'sugarCookie',
+    name: 'Sugar Cookie',
+    description: 'Rolled cookie dough, about 6mm',
+    settings: {
+      doughThickness: 6,
+      cuttingHeight: 12,
+      totalHeight: 20,
+      wallThickness: 1.0,
+      edgeThickness: 0.4,
+      taperAngle: 7,
+      imprintDepth: 2,
+      embossDepth: 2.5,
+      stampDepth: 3.0
+    },
+    limits: {
+      minClearance: 4,
+      maxCuttingHeight: 20,
+      maxEdgeThickness: 0.8,
+      draftAngle: 3,
+      maxTaperAngle: 15,
+      reliefDepth: [1.5, 4.0]
+    },
+    recommendations: [
+      'Chill the rolled dough before cutting for crisp edges',
+      'Dip the cutter in flour between cuts'
+    ]
+  },
+  {
+    id: 'fondant',
+    name: 'Fondant',
+    description: 'Rolled fondant or sugar paste, 2-3mm',
+    settings: {
+      doughThickness: 2.5,
+      cuttingHeight: 8,
+      totalHeight: 14,
+      wallThickness: 1.0,
+      edgeThickness: 0.4,
+      taperAngle: 4,
+      imprintDepth: 1,
+      embossDepth: 1.0,
+      stampDepth: 1.0
+    },
+    limits: {
+      minClearance: 3,
+      maxCuttingHeight: 14,
+      maxEdgeThickness: 0.5,
+      draftAngle: 2,
+      maxTaperAngle: 10,
+      reliefDepth: [0.5, 1.5]
+    },
+    recommendations: [
+      'Dust the fondant with cornstarch so it releases cleanly',
+      'Deep reliefs tear thin fondant: keep emboss depth under half the thickness'
+    ]
+  },
+  {
+    id: 'gingerbread',
+    name: 'Gingerbread',
+    description: 'Thick, firm gingerbread dough, 8-10mm',
+    settings: {
+      doughThickness: 8,
+      cuttingHeight: 16,
+      totalHeight: 24,
+      wallThickness: 1.2,
+      edgeThickness: 0.6,
+      taperAngle: 8,
+      imprintDepth: 3,
+      embossDepth: 3.0,
+      stampDepth: 3.5
+    },
+    limits: {
+      minClearance: 5,
+      maxCuttingHeight: 25,
+      maxEdgeThickness: 1.0,
+      draftAngle: 5,
+      maxTaperAngle: 15,
+      reliefDepth: [2.0, 5.0]
+    },
+    recommendations: [
+      'Firm dough pushes back: a slightly thicker edge keeps the cutter from flexing',
+      'Gingerbread spreads little, so deeper reliefs survive baking'
+    ]
+  },
+  {
+    id: 'polymerClay',
+    name: 'Polymer Clay',
+    description: 'Conditioned polymer clay sheets, about 3mm',
+    settings: {
+      doughThickness: 3,
+      cuttingHeight: 9,
+      totalHeight: 12,
+      wallThickness: 1.0,
+      edgeThickness: 0.4,
+      taperAngle: 4,
+      imprintDepth: 1,
+      embossDepth: 1.0,
+      stampDepth: 1.0
+    },
+    limits: {
+      minClearance: 2,
+      maxCuttingHeight: 10,
+      maxEdgeThickness: 0.5,
+      draftAngle: 1,
+      maxTaperAngle: 5,
+      reliefDepth: [0.5, 1.5]
+    },
+    recommendations: [
+      'Short, sharp cutters press evenly through clay without dragging',
+      'A dusting of cornstarch or a little water stops the clay sticking'
+    ]
+  }
+];
+
+/**
+ * Get a dough preset by ID, falling back to sugar cookie dough
+ */
+export function getDoughPreset(id: DoughType): DoughPreset {
+  return DOUGH_PRESETS.find(preset => preset.id === id) ?? DOUGH_PRESETS[0];
+}
+
+/**
+ * Switch to a dough and take over its cutter settings. Each preset's taper
+ * thins its wall down to the edge over its cutting height.
+ */
+export function applyDoughPreset(params: CookieCutterParams, id: DoughType): CookieCutterParams {
+  const { settings } = getDoughPreset(id);
+  return { ...params, ...settings, doughType: id };
+}
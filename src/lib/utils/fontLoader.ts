@@ -0,0 +1,264 @@
+import {
+  parse as parseOpenType,
+  type Font as OpenTypeFont,
+  type PathCommand as OpenTypeCommand,
+} from 'three/examples/jsm/libs/opentype.module.js';
+import droidSansUrl from 'three/examples/fonts/droid/droid_sans_regular.typeface.json?url';
+import droidSansBoldUrl from 'three/examples/fonts/droid/droid_sans_bold.typeface.json?url';
+import droidSerifUrl from 'three/examples/fonts/droid/droid_serif_regular.typeface.json?url';
+import droidSerifBoldUrl from 'three/examples/fonts/droid/droid_serif_bold.typeface.json?url';
+import droidSansMonoUrl from 'three/examples/fonts/droid/droid_sans_mono_regular.typeface.json?url';
+
+/**
+ * One glyph outline command in font units, with y pointing up
+ */
+export type GlyphCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface GlyphOutline {
+  commands: GlyphCommand[];
+  advance: number; // font units
+}
+
+/**
+ * A font the text tools can lay out, whatever file format it came from
+ */
+export interface TextFont {
+  id: string;
+  name: string;
+  bundled: boolean;
+  unitsPerEm: number;
+  capHeight: number; // font units
+  getGlyph(char: string): GlyphOutline | null;
+  getKerning(left: string, right: string): number; // font units
+}
+
+/**
+ * Open fonts shipped with the app, as three.js typeface data
+ */
+export const BUNDLED_FONTS: { id: string; name: string; url: string }[] = [
+  { id: 'droid-sans', name: 'Droid Sans', url: droidSansUrl },
+  { id: 'droid-sans-bold', name: 'Droid Sans Bold', url: droidSansBoldUrl },
+  { id: 'droid-serif', name: 'Droid Serif', url: droidSerifUrl },
+  { id: 'droid-serif-bold', name: 'Droid Serif Bold', url: droidSerifBoldUrl },
+  { id: 'droid-sans-mono', name: 'Droid Sans Mono', url: droidSansMonoUrl },
+];
+
+/**
+ * Characters tried, in order, to measure the height of capital letters
+ */
+const CAP_HEIGHT_CHARS = 'HIEFTL';
+
+/**
+ * Share of the em used as cap height when no capital letter can be measured
+ */
+const DEFAULT_CAP_HEIGHT = 0.7;
+
+/**
+ * three.js typeface data, as written by facetype.js
+ */
+interface TypefaceData {
+  familyName: string;
+  resolution: number;
+  glyphs: Record<string, { ha: number; o?: string }>;
+}
+
+const loadedFonts = new Map<string, TextFont>();
+
+/**
+ * Highest point of a glyph outline, in font units
+ */
+function glyphTop(glyph: GlyphOutline | null): number {
+  let top = 0;
+  for (const command of glyph?.commands ?? []) {
+    if (command.type !== 'Z') top = Math.max(top, command.y);
+  }
+  return top;
+}
+
+/**
+ * Cap height measured from the first capital letter the font has
+ */
+function measureCapHeight(getGlyph: (char: string) => GlyphOutline | null, unitsPerEm: number): number {
+  for (const char of CAP_HEIGHT_CHARS) {
+    const top = glyphTop(getGlyph(char));
+    if (top > 0) return top;
+  }
+  return unitsPerEm * DEFAULT_CAP_HEIGHT;
+}
+
+/**
+ * Wrap an opentype.js font (TTF, OTF or WOFF)
+ */
+function createOpenTypeFont(font: OpenTypeFont, id: string, fallbackName: string): TextFont {
+  const glyphs = new Map<string, GlyphOutline>();
+
+  const getGlyph = (char: string): GlyphOutline | null => {
+    let outline = glyphs.get(char);
+    if (!outline) {
+      const glyph = font.charToGlyph(char);
+      outline = {
+        commands: glyph.path.commands.map(toGlyphCommand),
+        advance: glyph.advanceWidth ?? 0,
+      };
+      glyphs.set(char, outline);
+    }
+    return outline;
+  };
+
+  const family = font.names.fontFamily?.en;
+  const subfamily = font.names.fontSubfamily?.en;
+
+  return {
+    id,
+    name: family ? [family, subfamily].filter(part => part && part !== 'Regular').join(' ') : fallbackName,
+    bundled: false,
+    unitsPerEm: font.unitsPerEm,
+    capHeight: font.tables.os2?.sCapHeight || measureCapHeight(getGlyph, font.unitsPerEm),
+    getGlyph,
+    getKerning: (left, right) => font.getKerningValue(font.charToGlyph(left), font.charToGlyph(right)),
+  };
+}
+
+/**
+ * Copy an opentype.js path command
+ */
+function toGlyphCommand(command: OpenTypeCommand): GlyphCommand {
+  const { x = 0, y = 0, x1 = 0, y1 = 0, x2 = 0, y2 = 0 } = command;
+  switch (command.type) {
+    case 'M':
+    case 'L':
+      return { type: command.type, x, y };
+    case 'Q':
+      return { type: 'Q', x1, y1, x, y };
+    case 'C':
+      return { type: 'C', x1, y1, x2, y2, x, y };
+    default:
+      return { type: 'Z' };
+  }
+}
+
+/**
+ * Read the outline string of a typeface glyph. Curves list their end point
+ * before their control points.
+ */
+function parseTypefaceOutline(outline: string): GlyphCommand[] {
+  const tokens = outline.trim().split(/\s+/);
+  const commands: GlyphCommand[] = [];
+  const next = () => parseFloat(tokens[i++]);
+  let i = 0;
+
+  while (i < tokens.length) {
+    switch (tokens[i++]) {
+      case 'm':
+        if (commands.length > 0) commands.push({ type: 'Z' });
+        commands.push({ type: 'M', x: next(), y: next() });
+        break;
+      case 'l':
+        commands.push({ type: 'L', x: next(), y: next() });
+        break;
+      case 'q': {
+        const x = next(), y = next();
+        commands.push({ type: 'Q', x1: next(), y1: next(), x, y });
+        break;
+      }
+      case 'b': {
+        const x = next(), y = next();
+        commands.push({ type: 'C', x1: next(), y1: next(), x2: next(), y2: next(), x, y });
+        break;
+      }
+    }
+  }
+
+  if (commands.length > 0) commands.push({ type: 'Z' });
+  return commands;
+}
+
+/**
+ * Wrap three.js typeface data. Typeface fonts carry no kerning.
+ */
+function createTypefaceFont(data: TypefaceData, id: string, name: string): TextFont {
+  const glyphs = new Map<string, GlyphOutline>();
+
+  const getGlyph = (char: string): GlyphOutline | null => {
+    const glyph = data.glyphs[char];
+    if (!glyph) return null;
+
+    let outline = glyphs.get(char);
+    if (!outline) {
+      outline = { commands: parseTypefaceOutline(glyph.o ?? ''), advance: glyph.ha };
+      glyphs.set(char, outline);
+    }
+    return outline;
+  };
+
+  return {
+    id,
+    name,
+    bundled: true,
+    unitsPerEm: data.resolution,
+    capHeight: measureCapHeight(getGlyph, data.resolution),
+    getGlyph,
+    getKerning: () => 0,
+  };
+}
+
+/**
+ * Load one of the bundled fonts
+ */
+export async function loadBundledFont(id: string): Promise<TextFont> {
+  const cached = loadedFonts.get(id);
+  if (cached) return cached;
+
+  const entry = BUNDLED_FONTS.find(font => font.id === id);
+  if (!entry) {
+    throw new Error(`Unknown font: ${id}`);
+  }
+
+  const response = await fetch(entry.url);
+  if (!response.ok) {
+    throw new Error(`Failed to load font ${entry.name}`);
+  }
+
+  const font = createTypefaceFont(await response.json() as TypefaceData, entry.id, entry.name);
+  loadedFonts.set(id, font);
+  return font;
+}
+
+/**
+ * Read a TTF, OTF or WOFF font file
+ */
+export function parseFontFile(buffer: ArrayBuffer, fileName: string): TextFont {
+  const signature = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)));
+  if (signature === 'wOF2') {
+    throw new Error('WOFF2 fonts are not supported. Use the TTF, OTF or WOFF version of the font.');
+  }
+
+  let font: OpenTypeFont;
+  try {
+    font = parseOpenType(buffer);
+  } catch (err) {
+    throw new Error(`Could not read font ${fileName}: ${err instanceof Error ? err.message : 'unknown format'}`);
+  }
+
+  const textFont = createOpenTypeFont(font, `upload:${fileName}`, fileName.replace(/\.[^.]+$/, ''));
+  loadedFonts.set(textFont.id, textFont);
+  return textFont;
+}
+
+/**
+ * Load a font file the user picked
+ */
+export async function loadFontFile(file: File): Promise<TextFont> {
+  return parseFontFile(await file.arrayBuffer(), file.name);
+}
+
+/**
+ * Fonts the user has uploaded this session
+ */
+export function getUploadedFonts(): TextFont[] {
+  return [...loadedFonts.values()].filter(font => !font.bundled);
+}
@@ -1,83 +1,50 @@
-import { ImageTracer } from 'imagetracer';
+import { DEFAULT_TRACING_OPTIONS, type TracingOptions } from './imageTracing';
+import { traceImageInWorker } from './workerManager';
+import type { TaskOptions } from './taskControl';
 
 /**
- * Convert a raster image to SVG using imagetracer
+ * Longest side (in px) images are scaled down to before tracing
  */
-export async function vectorizeImage(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      const dataUrl = e.target?.result as string;
-
-      // Create an image element
-      const img = new Image();
-      img.onload = () => {
-        try {
-          const imageData = getImageData(img);
-
-          // Create ImageTracer instance
-          const tracer = new ImageTracer();
-
-          // Vectorize the image with optimized settings for cookie cutters
-          const svgString = tracer.imageDataToSVG(
-            imageData,
-            {
-              // Simplified shapes for cleaner cookie cutters
-              ltres: 1,          // Line threshold
-              qtres: 1,          // Quad threshold
-              pathomit: 8,       // Path omit - remove small paths
-              colorsampling: 0,  // Disabled for binary
-              numberofcolors: 2, // Binary black/white
-              mincolorratio: 0,  // Min color ratio
-              colorquantcycles: 3,
-              // Blur for smoother edges
-              blurradius: 0,
-              blurdelta: 20,
-              // Path optimization
-              scale: 1,
-              roundcoords: 1,    // Round coordinates for cleaner paths
-              // Visual quality
-              viewbox: true,
-              desc: false,
-            }
-          );
-          resolve(svgString);
-        } catch (error) {
-          reject(new Error(`Vectorization failed: ${error}`));
-        }
-      };
-
-      img.onerror = () => {
-        reject(new Error('Failed to load image'));
-      };
-
-      img.src = dataUrl;
-    };
-
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
-
-    reader.readAsDataURL(file);
-  });
-}
+export const MAX_TRACE_SIZE = 1024;
 
 /**
- * Extract ImageData from an Image element
+ * Decode an image file into pixels, scaled down to fit `maxSize`
  */
-function getImageData(img: HTMLImageElement): ImageData {
+export async function readImageData(file: Blob, maxSize = MAX_TRACE_SIZE): Promise<ImageData> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error('Failed to load image');
+  }
+
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
   const canvas = document.createElement('canvas');
-  canvas.width = img.width;
-  canvas.height = img.height;
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
 
   const ctx = canvas.getContext('2d');
   if (!ctx) {
+    bitmap.close();
     throw new Error('Failed to get canvas context');
   }
 
-  ctx.drawImage(img, 0, 0);
-  return ctx.getImageData(0, 0, img.width, img.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Convert a raster image to SVG with the tracing pipeline, in the worker
+ */
+export async function vectorizeImage(
+  file: Blob,
+  tracing: TracingOptions = DEFAULT_TRACING_OPTIONS,
+  options: TaskOptions = {}
+): Promise<string> {
+  const image = await readImageData(file);
+  const result = await traceImageInWorker(image, tracing, options);
+  return result.svg;
 }
 
 /**
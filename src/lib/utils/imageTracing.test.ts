@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRACING_OPTIONS, traceImage, type TracingImage, type TracingOptions } from './imageTracing';
+
+/**
+ * A white image with a black bar covering pixels x0..x1, y0..y1
+ */
+function barImage(width: number, height: number, x0: number, x1: number, y0: number, y1: number): TracingImage {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Points along every segment of absolute M/L/C/Z path data
+ */
+function samplePathData(pathData: string): { x: number; y: number }[] {
+  const tokens = pathData.match(/[MLCZ]|-?\d*\.?\d+(?:e-?\d+)?/g) ?? [];
+  const samples: { x: number; y: number }[] = [];
+  let current = { x: 0, y: 0 };
+  let i = 0;
+  const next = () => ({ x: Number(tokens[i++]), y: Number(tokens[i++]) });
+
+  while (i < tokens.length) {
+    const command = tokens[i++];
+    if (command === 'M' || command === 'L') {
+      current = next();
+      samples.push(current);
+    } else if (command === 'C') {
+      const [c1, c2, end] = [next(), next(), next()];
+      for (let k = 1; k <= 20; k++) {
+        const t = k / 20;
+        const s = 1 - t;
+        samples.push({
+          x: s * s * s * current.x + 3 * s * s * t * c1.x + 3 * s * t * t * c2.x + t * t * t * end.x,
+          y: s * s * s * current.y + 3 * s * s * t * c1.y + 3 * s * t * t * c2.y + t * t * t * end.y,
+        });
+      }
+      current = end;
+    }
+  }
+
+  return samples;
+}
+
+describe('traceImage', () => {
+  // Pixel edges of a 7 x 99 px bar: x 11..110, y 37..44
+  const image = barImage(120, 80, 11, 109, 37, 43);
+
+  const traceBar = (options: Partial<TracingOptions>) =>
+    traceImage(image, { ...DEFAULT_TRACING_OPTIONS, backend: 'imagetracer', ...options });
+
+  it('keeps smoothed outline curves inside the traced shape', async () => {
+    const result = await traceBar({ mode: 'outline' });
+    const samples = samplePathData(result.pathData);
+    expect(samples.length).toBeGreaterThan(0);
+
+    for (const { x, y } of samples) {
+      expect(x).toBeGreaterThanOrEqual(10.5);
+      expect(x).toBeLessThanOrEqual(110.5);
+      expect(y).toBeGreaterThanOrEqual(36.5);
+      expect(y).toBeLessThanOrEqual(44.5);
+    }
+  });
+
+  it('keeps smoothed centerlines inside the traced shape', async () => {
+    const result = await traceBar({ mode: 'centerline' });
+    const samples = samplePathData(result.pathData);
+    expect(samples.length).toBeGreaterThan(0);
+
+    for (const { x, y } of samples) {
+      expect(x).toBeGreaterThanOrEqual(10.5);
+      expect(x).toBeLessThanOrEqual(110.5);
+      expect(y).toBeGreaterThanOrEqual(36.5);
+      expect(y).toBeLessThanOrEqual(44.5);
+    }
+  });
+});
@@ -0,0 +1,629 @@
+import { ImageTracer } from 'imagetracer';
+import type { PathPoint } from './svgPathExtractor';
+import { potrace, potraceToPathData } from './potrace';
+import { thinMask, traceSkeleton, distanceTransform } from './skeleton';
+import { offsetOpenPath, unionPaths } from './pathOperations';
+import { checkpoint, type TaskOptions } from './taskControl';
+
+/**
+ * How thresholded pixels become outlines: imagetracer's polygons, simplified
+ * and rounded here, or Potrace's fitted Bézier curves
+ */
+export type TracingBackend = 'imagetracer' | 'potrace';
+
+/**
+ * What a trace follows: the outlines of dark areas, or the middle of
+ * drawn strokes as single lines
+ */
+export type TracingMode = 'outline' | 'centerline';
+
+/**
+ * Settings of the image tracing pipeline. Sizes are in image pixels.
+ */
+export interface TracingOptions {
+  mode: TracingMode;
+  backend: TracingBackend; // outline mode only
+  threshold: number; // 0-255, pixels darker than this are traced
+  autoThreshold: boolean; // pick the threshold with Otsu's method instead
+  invert: boolean; // trace the light parts of the image
+  blurRadius: number; // px of blur before thresholding, smooths noise and jaggies
+  minPathArea: number; // px², smaller shapes and holes are dropped
+  cornerSmoothing: number; // imagetracer and centerlines: 0 keeps straight segments, 1 rounds every corner but the sharpest
+  targetPoints: number; // imagetracer and centerlines: most points kept across all paths
+  alphaMax: number; // Potrace: 0 makes every vertex a corner, 4/3 rounds them all
+}
+
+/**
+ * A traced image. Paths are in image pixels, with y pointing down.
+ *
+ * Outlines come as one filled path. Centerlines come as stroked lines of
+ * the measured stroke width, which the detail modes read as single imprint
+ * ribs, and as `embossSvg`, the strokes expanded into filled outlines.
+ */
+export interface TracingResult {
+  mode: TracingMode;
+  svg: string;
+  pathData: string;
+  paths: PathPoint[][]; // outlines and holes or centerlines, through the segment ends
+  width: number;
+  height: number;
+  threshold: number; // the threshold used
+  pointCount: number; // segment ends across all paths
+  strokeWidth: number; // average width of the traced strokes, 0 for outlines
+  embossSvg: string | null;
+}
+
+/**
+ * The pixels a trace reads, as in ImageData
+ */
+export type TracingImage = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+export const DEFAULT_TRACING_OPTIONS: TracingOptions = {
+  mode: 'outline',
+  backend: 'potrace',
+  threshold: 128,
+  autoThreshold: true,
+  invert: false,
+  blurRadius: 1,
+  minPathArea: 64,
+  cornerSmoothing: 0.5,
+  targetPoints: 400,
+  alphaMax: 1,
+};
+
+/**
+ * A traced run of points, closed for outlines and rings
+ */
+interface TracedLine {
+  points: PathPoint[];
+  closed: boolean;
+}
+
+/**
+ * A segment of an imagetracer path: a line ends at (x2, y2), a quadratic
+ * curve has its control point there and ends at (x3, y3)
+ */
+interface ImageTracerSegment {
+  type: 'L' | 'Q';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  x3?: number;
+  y3?: number;
+}
+
+/**
+ * Simplification never goes below this tolerance (in px), which removes
+ * the staircase of the pixel grid
+ */
+const MIN_TOLERANCE = 0.75;
+
+/**
+ * Steps of the search for the tolerance that meets the point budget
+ */
+const TOLERANCE_SEARCH_STEPS = 16;
+
+/**
+ * Corners turning more than this (in degrees) always stay sharp
+ */
+const MAX_SMOOTH_ANGLE = 120;
+
+/**
+ * Longest curve handle, as a fraction of the segment it leaves along
+ */
+const MAX_HANDLE_FRACTION = 1 / 3;
+
+/**
+ * Distance (in px) Potrace may move a curve when joining curves
+ */
+const POTRACE_TOLERANCE = 0.2;
+
+/**
+ * Decimal places kept for coordinates written into the SVG
+ */
+const COORDINATE_PRECISION = 2;
+
+/**
+ * Grayscale values of an image, with transparent pixels counted as white
+ */
+export function toGrayscale(image: TracingImage): Float32Array {
+  const { data, width, height } = image;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+
+  return gray;
+}
+
+/**
+ * Blur grayscale values with three passes of a box blur, which comes close
+ * to a Gaussian
+ */
+function blur(gray: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const r = Math.round(radius);
+  if (r < 1) return gray;
+
+  let source = gray;
+  let target: Float32Array = new Float32Array(gray.length);
+  const pass = (length: number, lines: number, index: (line: number, k: number) => number) => {
+    for (let line = 0; line < lines; line++) {
+      let sum = 0;
+      // Edges repeat their outermost pixel
+      const at = (k: number) => source[index(line, Math.min(length - 1, Math.max(0, k)))];
+      for (let k = -r; k <= r; k++) sum += at(k);
+      for (let k = 0; k < length; k++) {
+        target[index(line, k)] = sum / (2 * r + 1);
+        sum += at(k + r + 1) - at(k - r);
+      }
+    }
+    [source, target] = [target, source];
+  };
+
+  for (let i = 0; i < 3; i++) {
+    pass(width, height, (y, x) => y * width + x);
+    pass(height, width, (x, y) => y * width + x);
+  }
+
+  return source;
+}
+
+/**
+ * Threshold that best splits the grayscale values into two classes
+ * (Otsu's method)
+ */
+export function findOtsuThreshold(gray: Float32Array): number {
+  const histogram = new Array(256).fill(0);
+  for (const value of gray) histogram[Math.min(255, Math.max(0, Math.round(value)))]++;
+
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 128;
+  let bestVariance = -1;
+
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t + 1;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Black and white palette for tracing a mask, traced pixels first
+ */
+const MASK_PALETTE = [
+  { r: 0, g: 0, b: 0, a: 255 },
+  { r: 255, g: 255, b: 255, a: 255 },
+];
+
+/**
+ * Follow the edges of the traced pixels into closed rings with imagetracer.
+ * Its line and quadratic segments are flattened back into points, which
+ * the simplification below reduces again.
+ */
+function traceContours(mask: Uint8Array, width: number, height: number): PathPoint[][] {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < mask.length; i++) {
+    const value = mask[i] ? 0 : 255;
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = value;
+    pixels[i * 4 + 3] = 255;
+  }
+
+  const tracedata = new ImageTracer().imageDataToTracedata(
+    { data: pixels, width, height, colorSpace: 'srgb' } as ImageData,
+    {
+      ltres: 0.5,
+      qtres: 0.5,
+      pathomit: 0, // small paths are dropped by area instead
+      colorsampling: 0,
+      numberofcolors: 2,
+      pal: MASK_PALETTE,
+      colorquantcycles: 1,
+      mincolorratio: 0,
+      blurradius: 0,
+    }
+  );
+
+  const segments: ImageTracerSegment[][] = (tracedata.layers[0] ?? []).map(
+    (path: { segments: ImageTracerSegment[] }) => path.segments
+  );
+
+  return segments.map(path => path.flatMap(segment =>
+    segment.type === 'Q'
+      ? [
+          {
+            x: 0.25 * segment.x1 + 0.5 * segment.x2 + 0.25 * (segment.x3 ?? segment.x2),
+            y: 0.25 * segment.y1 + 0.5 * segment.y2 + 0.25 * (segment.y3 ?? segment.y2),
+          },
+          { x: segment.x3 ?? segment.x2, y: segment.y3 ?? segment.y2 },
+        ]
+      : [{ x: segment.x2, y: segment.y2 }]
+  )).filter(ring => ring.length >= 3);
+}
+
+/**
+ * Signed area of a ring, in px²
+ */
+function ringArea(ring: PathPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p = ring[i];
+    const q = ring[(i + 1) % ring.length];
+    area += p.x * q.y - q.x * p.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Distance from a point to the segment between two others
+ */
+function segmentDistance(p: PathPoint, a: PathPoint, b: PathPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+}
+
+/**
+ * Douglas-Peucker simplification of a line. Rings are split at the vertex
+ * furthest from their first one.
+ */
+function simplifyLine(line: TracedLine, tolerance: number): TracedLine {
+  const { points, closed } = line;
+  const keep = new Uint8Array(points.length);
+  const simplify = (first: number, last: number) => {
+    let worst = -1;
+    let worstDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(points[i], points[first], points[last % points.length]);
+      if (distance > worstDistance) {
+        worst = i;
+        worstDistance = distance;
+      }
+    }
+    if (worst >= 0) {
+      keep[worst] = 1;
+      simplify(first, worst);
+      simplify(worst, last);
+    }
+  };
+
+  keep[0] = 1;
+  if (closed) {
+    let far = 0;
+    let farDistance = 0;
+    points.forEach((p, i) => {
+      const distance = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+      if (distance > farDistance) {
+        far = i;
+        farDistance = distance;
+      }
+    });
+
+    keep[far] = 1;
+    simplify(0, far);
+    simplify(far, points.length);
+  } else {
+    keep[points.length - 1] = 1;
+    simplify(0, points.length - 1);
+  }
+
+  return { points: points.filter((_, i) => keep[i]), closed };
+}
+
+/**
+ * Simplify lines with the smallest tolerance that brings their total point
+ * count within `targetPoints`. Lines that collapse are dropped.
+ */
+function simplifyToBudget(lines: TracedLine[], targetPoints: number, maxTolerance: number): TracedLine[] {
+  const run = (tolerance: number) =>
+    lines
+      .map(line => simplifyLine(line, tolerance))
+      .filter(line => line.points.length >= (line.closed ? 3 : 2));
+  const count = (simplified: TracedLine[]) => simplified.reduce((sum, line) => sum + line.points.length, 0);
+
+  let best = run(MIN_TOLERANCE);
+  if (count(best) <= targetPoints) return best;
+
+  let low = MIN_TOLERANCE;
+  let high = Math.max(maxTolerance, MIN_TOLERANCE);
+  for (let i = 0; i < TOLERANCE_SEARCH_STEPS; i++) {
+    const tolerance = (low + high) / 2;
+    const simplified = run(tolerance);
+    if (count(simplified) <= targetPoints) {
+      best = simplified;
+      high = tolerance;
+    } else {
+      low = tolerance;
+    }
+  }
+
+  return count(best) <= targetPoints ? best : run(high);
+}
+
+/**
+ * Write a line as SVG path data. Vertices turning less than the smoothing
+ * allows get Catmull-Rom tangents and the segments next to them become
+ * cubic curves; the other vertices, and the ends of open lines, stay sharp.
+ */
+function lineToPathData(line: TracedLine, cornerSmoothing: number): string {
+  const { points, closed } = line;
+  const n = points.length;
+  const at = (i: number) => closed ? points[((i % n) + n) % n] : points[Math.min(n - 1, Math.max(0, i))];
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  const maxAngle = (cornerSmoothing * MAX_SMOOTH_ANGLE * Math.PI) / 180;
+
+  const smooth = points.map((p, i) => {
+    if (maxAngle <= 0 || (!closed && (i === 0 || i === n - 1))) return false;
+    const a = at(i - 1);
+    const b = at(i + 1);
+    const turn = Math.abs(
+      Math.atan2((p.x - a.x) * (b.y - p.y) - (p.y - a.y) * (b.x - p.x), (p.x - a.x) * (b.x - p.x) + (p.y - a.y) * (b.y - p.y))
+    );
+    return turn < maxAngle;
+  });
+
+  // Control point leaving vertex i towards i + side. The handle is clamped
+  // to its own segment, so a vertex next to a long edge can't throw the
+  // curve past a short neighbour.
+  const control = (i: number, side: 1 | -1): PathPoint => {
+    const p = at(i);
+    if (!smooth[((i % n) + n) % n]) return p;
+    const tangent = { x: (at(i + 1).x - at(i - 1).x) / 6, y: (at(i + 1).y - at(i - 1).y) / 6 };
+    const length = Math.hypot(tangent.x, tangent.y);
+    const limit = Math.hypot(at(i + side).x - p.x, at(i + side).y - p.y) * MAX_HANDLE_FRACTION;
+    const scale = length > limit ? limit / length : 1;
+    return { x: p.x + side * tangent.x * scale, y: p.y + side * tangent.y * scale };
+  };
+
+  const parts = [`M ${round(points[0].x)} ${round(points[0].y)}`];
+  for (let i = 0; i < (closed ? n : n - 1); i++) {
+    const end = at(i + 1);
+    if (!smooth[i] && !smooth[(i + 1) % n]) {
+      parts.push(`L ${round(end.x)} ${round(end.y)}`);
+    } else {
+      const c1 = control(i, 1);
+      const c2 = control(i + 1, -1);
+      parts.push(`C ${round(c1.x)} ${round(c1.y)} ${round(c2.x)} ${round(c2.y)} ${round(end.x)} ${round(end.y)}`);
+    }
+  }
+  if (closed) parts.push('Z');
+
+  return parts.join(' ');
+}
+
+/**
+ * Clear the groups of connected pixels smaller than `minArea`
+ */
+function removeSpecks(mask: Uint8Array, width: number, height: number, minArea: number): void {
+  const seen = new Uint8Array(mask.length);
+  const group: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+
+    group.length = 0;
+    group.push(start);
+    seen[start] = 1;
+    for (let i = 0; i < group.length; i++) {
+      const x = group[i] % width;
+      const y = (group[i] - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const index = ny * width + nx;
+          if (mask[index] && !seen[index]) {
+            seen[index] = 1;
+            group.push(index);
+          }
+        }
+      }
+    }
+
+    if (group.length < minArea) {
+      for (const index of group) mask[index] = 0;
+    }
+  }
+}
+
+/**
+ * Grayscale, blur and threshold an image into a mask of the pixels to trace
+ */
+function thresholdImage(image: TracingImage, options: TracingOptions): { mask: Uint8Array; threshold: number } {
+  const { width, height } = image;
+  const gray = blur(toGrayscale(image), width, height, options.blurRadius);
+  const threshold = options.autoThreshold ? findOtsuThreshold(gray) : options.threshold;
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = (gray[i] < threshold) !== options.invert ? 1 : 0;
+  }
+
+  return { mask, threshold };
+}
+
+/**
+ * Follow the middle of the strokes in a mask. The stroke width is twice the
+ * average distance from the centerlines to the edge, less the centre pixel
+ * counted twice; spurs shorter than it come from bumps in the outline.
+ */
+async function traceCenterlines(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  options: TracingOptions,
+  taskOptions: TaskOptions
+): Promise<{ lines: TracedLine[]; strokeWidth: number }> {
+  removeSpecks(mask, width, height, options.minPathArea);
+  const distance = distanceTransform(mask, width, height);
+
+  await checkpoint(taskOptions, 0.2, 'Thinning strokes');
+  const skeleton = thinMask(mask, width, height);
+
+  let total = 0;
+  let count = 0;
+  for (let i = 0; i < skeleton.length; i++) {
+    if (skeleton[i]) {
+      total += distance[i];
+      count++;
+    }
+  }
+  const strokeWidth = count > 0 ? Math.max(1, (2 * total) / count - 1) : 0;
+
+  await checkpoint(taskOptions, 0.5, 'Following centerlines');
+  const lines = traceSkeleton(skeleton, width, height, strokeWidth);
+
+  await checkpoint(taskOptions, 0.6, 'Simplifying centerlines');
+  return {
+    lines: simplifyToBudget(lines, options.targetPoints, Math.max(width, height) / 10),
+    strokeWidth,
+  };
+}
+
+/**
+ * Expand stroked centerlines into filled outlines with round ends and joins
+ */
+async function expandStrokes(lines: TracedLine[], strokeWidth: number): Promise<PathPoint[][]> {
+  const outlines: PathPoint[][] = [];
+  for (const { points, closed } of lines) {
+    outlines.push(...await offsetOpenPath(closed ? [...points, points[0]] : points, strokeWidth, 'round', 'round'));
+  }
+  return unionPaths(outlines);
+}
+
+/**
+ * Write filled rings as SVG path data with straight segments
+ */
+function ringsToPathData(rings: PathPoint[][]): string {
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  return rings
+    .map(ring => `M ${ring.map(p => `${round(p.x)} ${round(p.y)}`).join(' L ')} Z`)
+    .join(' ');
+}
+
+/**
+ * Trace an image into filled outlines for a cutter, or into centerlines for
+ * line art.
+ *
+ * The image is turned to grayscale (transparency counts as white), blurred
+ * and thresholded, at Otsu's threshold when `autoThreshold` is on. Shapes
+ * and holes under `minPathArea` are dropped.
+ *
+ * With imagetracer, the edges of the traced pixels are followed into rings,
+ * which are simplified with the smallest tolerance that keeps them within
+ * `targetPoints`; corners turning gently enough for the smoothing become
+ * curves. Potrace fits the fewest straight edges to the pixels instead and
+ * turns every vertex below `alphaMax` into a cubic curve. The SVG fills its
+ * single path even-odd, so holes stay open.
+ *
+ * In centerline mode the strokes are thinned to one pixel and followed into
+ * open lines and rings, simplified and smoothed like imagetracer's. The SVG
+ * strokes them at their measured width, so they load as imprint details;
+ * `embossSvg` has them expanded into outlines to cut as raised strokes.
+ *
+ * Works on plain pixel data, so it runs in a worker.
+ */
+export async function traceImage(
+  image: TracingImage,
+  options: TracingOptions,
+  taskOptions: TaskOptions = {}
+): Promise<TracingResult> {
+  const { width, height } = image;
+  if (width === 0 || height === 0) {
+    throw new Error('The image is empty');
+  }
+
+  await checkpoint(taskOptions, 0, 'Thresholding image');
+  const { mask, threshold } = thresholdImage(image, options);
+  const header = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">\n`;
+
+  if (options.mode === 'centerline') {
+    const { lines, strokeWidth } = await traceCenterlines(mask, width, height, options, taskOptions);
+    if (lines.length === 0) {
+      throw new Error('Nothing to trace: adjust the threshold or invert the image');
+    }
+
+    await checkpoint(taskOptions, 0.8, 'Expanding strokes');
+    const pathData = lines.map(line => lineToPathData(line, options.cornerSmoothing)).join(' ');
+    const stroke = +strokeWidth.toFixed(COORDINATE_PRECISION);
+    const outlines = await expandStrokes(lines, strokeWidth);
+
+    return {
+      mode: 'centerline',
+      svg: header +
+        `  <path d="${pathData}" fill="none" stroke="black" stroke-width="${stroke}" ` +
+        `stroke-linecap="round" stroke-linejoin="round"/>\n</svg>`,
+      pathData,
+      paths: lines.map(line => line.points),
+      width,
+      height,
+      threshold,
+      pointCount: lines.reduce((sum, line) => sum + line.points.length, 0),
+      strokeWidth,
+      embossSvg: outlines.length > 0
+        ? header + `  <path d="${ringsToPathData(outlines)}" fill="black" fill-rule="evenodd"/>\n</svg>`
+        : null,
+    };
+  }
+
+  await checkpoint(taskOptions, 0.3, 'Tracing outlines');
+  let paths: PathPoint[][];
+  let pathData: string;
+
+  if (options.backend === 'potrace') {
+    const curves = potrace(mask, width, height, {
+      turdSize: options.minPathArea,
+      alphaMax: options.alphaMax,
+      optTolerance: POTRACE_TOLERANCE,
+    });
+    paths = curves.map(curve => curve.segments.map(segment => segment.c[2]));
+    pathData = potraceToPathData(curves);
+  } else {
+    const rings = traceContours(mask, width, height)
+      .filter(ring => Math.abs(ringArea(ring)) >= options.minPathArea)
+      .map(points => ({ points, closed: true }));
+
+    await checkpoint(taskOptions, 0.6, 'Simplifying outlines');
+    const simplified = simplifyToBudget(rings, options.targetPoints, Math.max(width, height) / 10);
+    paths = simplified.map(ring => ring.points);
+    pathData = simplified.map(ring => lineToPathData(ring, options.cornerSmoothing)).join(' ');
+  }
+
+  if (paths.length === 0) {
+    throw new Error('Nothing to trace: adjust the threshold or invert the image');
+  }
+
+  return {
+    mode: 'outline',
+    svg: header + `  <path d="${pathData}" fill="black" fill-rule="evenodd"/>\n</svg>`,
+    pathData,
+    paths,
+    width,
+    height,
+    threshold,
+    pointCount: paths.reduce((sum, ring) => sum + ring.length, 0),
+    strokeWidth: 0,
+    embossSvg: null,
+  };
+}
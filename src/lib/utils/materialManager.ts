@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { getMeshVolume } from './slicer';
 
 export interface MaterialPreset {
   id: string;
@@ -11,6 +12,10 @@ export interface MaterialPreset {
     bedTemp: number; // °C
     flexible: boolean;
   };
+  spool: {
+    weight: number; // g of filament
+    price: number; // per spool, in the shop's currency
+  };
 }
 
 export interface ColorRegion {
@@ -31,6 +36,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -43,6 +52,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -55,6 +68,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -67,6 +84,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -79,6 +100,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -91,6 +116,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 200,
       bedTemp: 60,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 20
     }
   },
   {
@@ -103,6 +132,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 230,
       bedTemp: 100,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 22
     }
   },
   {
@@ -115,6 +148,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 230,
       bedTemp: 80,
       flexible: false
+    },
+    spool: {
+      weight: 1000,
+      price: 24
     }
   },
   {
@@ -127,6 +164,10 @@ export const MATERIAL_PRESETS: MaterialPreset[] = [
       printTemp: 220,
       bedTemp: 50,
       flexible: true
+    },
+    spool: {
+      weight: 500,
+      price: 25
     }
   }
 ];
@@ -149,6 +190,7 @@ export function createThreeMaterial(preset: MaterialPreset): THREE.Material {
  */
 export function applyMaterialToMesh(mesh: THREE.Mesh, material: MaterialPreset): void {
   mesh.material = createThreeMaterial(material);
+  mesh.userData.materialId = material.id;
 }
 
 /**
@@ -159,9 +201,10 @@ export function getMaterialById(id: string): MaterialPreset | undefined {
 }
 
 /**
- * Calculate total filament weight for multi-material print
+ * Calculate total filament weight (in grams) for a multi-material print from
+ * the volume of each region's mesh in the model
  */
-export function calculateMultiMaterialWeight(regions: ColorRegion[]): {
+export function calculateMultiMaterialWeight(regions: ColorRegion[], object: THREE.Object3D): {
   total: number;
   byMaterial: Map<string, number>;
 } {
@@ -169,9 +212,11 @@ export function calculateMultiMaterialWeight(regions: ColorRegion[]): {
   let total = 0;
 
   for (const region of regions) {
-    // Simplified volume calculation - in real app, would traverse mesh geometry
-    const estimatedVolume = 1000; // mm³
-    const weight = (estimatedVolume / 1000) * region.material.properties.density;
+    const mesh = object.getObjectByName(region.meshName);
+    if (!mesh) continue;
+
+    // mm³ to cm³, times g/cm³
+    const weight = (getMeshVolume(mesh) / 1000) * region.material.properties.density;
 
     const currentWeight = byMaterial.get(region.material.id) || 0;
     byMaterial.set(region.material.id, currentWeight + weight);
@@ -0,0 +1,542 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { booleans, geometries, modifiers } from '@jscad/modeling';
+import type { Geom3 } from '@jscad/modeling/src/geometries/types';
+import type { generalize as Generalize } from '@jscad/modeling/src/operations/modifiers/generalize';
+
+// The bundled typings re-export generalize as a default export it does not have
+const generalize = modifiers.generalize as unknown as typeof Generalize;
+
+export interface MeshValidationReport {
+  triangleCount: number;
+  vertexCount: number; // after welding
+  weldedVertices: number; // duplicate vertices merged by welding
+  degenerateTriangles: number;
+  boundaryEdges: number; // edges used by a single triangle (holes)
+  nonManifoldEdges: number; // edges shared by more than two triangles
+  inconsistentEdges: number; // edges whose neighbouring triangles disagree on winding
+  shellCount: number;
+  openShells: number;
+  overlappingShells: number; // shells that intersect another shell
+  isWatertight: boolean;
+  issues: string[];
+}
+
+/**
+ * Distance below which two vertices are considered the same (mm)
+ */
+const WELD_TOLERANCE = 1e-4;
+
+/**
+ * Weld distance when repairing generated or boolean geometry, well below
+ * printer resolution (mm)
+ */
+const REPAIR_WELD_TOLERANCE = 0.01;
+
+/**
+ * Distance from an edge below which a vertex counts as lying on it (mm)
+ */
+const T_JUNCTION_TOLERANCE = 0.01;
+
+/**
+ * Upper bound on T-junction splitting passes
+ */
+const MAX_T_JUNCTION_PASSES = 20;
+
+/**
+ * Maximum number of vertices sampled per shell for the overlap test
+ */
+const OVERLAP_SAMPLE_SIZE = 200;
+
+/**
+ * Collect all meshes of an object into one position-only geometry in world space
+ */
+function collectWorldGeometry(object: THREE.Object3D): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const vertex = new THREE.Vector3();
+
+  object.updateWorldMatrix(true, true);
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.geometry) return;
+
+    const positionAttribute = child.geometry.getAttribute('position');
+    if (!positionAttribute) return;
+
+    const index = child.geometry.index;
+    const count = index ? index.count : positionAttribute.count;
+
+    for (let i = 0; i < count; i++) {
+      vertex.fromBufferAttribute(positionAttribute, index ? index.getX(i) : i);
+      vertex.applyMatrix4(child.matrixWorld);
+      positions.push(vertex.x, vertex.y, vertex.z);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+/**
+ * Merge vertices that share a position so triangles become connected
+ */
+export function weldGeometry(
+  geometry: THREE.BufferGeometry,
+  tolerance: number = WELD_TOLERANCE
+): THREE.BufferGeometry {
+  // Normals and UVs would keep coincident vertices apart
+  const positionsOnly = new THREE.BufferGeometry();
+  positionsOnly.setAttribute('position', geometry.getAttribute('position'));
+  if (geometry.index) {
+    positionsOnly.setIndex(geometry.index);
+  }
+
+  const welded = mergeVertices(positionsOnly, tolerance);
+  welded.computeVertexNormals();
+  return welded;
+}
+
+/**
+ * Weld near-coincident vertices, drop the triangles that collapse and close
+ * any remaining T-junctions
+ */
+export function repairGeometry(
+  geometry: THREE.BufferGeometry,
+  tolerance: number = REPAIR_WELD_TOLERANCE
+): THREE.BufferGeometry {
+  const welded = weldGeometry(geometry, tolerance);
+  const index = Array.from(welded.index!.array);
+  const triangles: number[] = [];
+  for (let i = 0; i < index.length; i += 3) {
+    const [a, b, c] = [index[i], index[i + 1], index[i + 2]];
+    if (a !== b && b !== c && a !== c) {
+      triangles.push(a, b, c);
+    }
+  }
+  welded.setIndex(triangles);
+
+  return splitTJunctions(welded);
+}
+
+/**
+ * Close T-junctions left behind by boolean operations.
+ *
+ * A vertex that lies on an open edge of a neighbouring triangle leaves a
+ * crack in the surface; the triangle is split at that vertex until no open
+ * edge has a vertex lying on it.
+ */
+export function splitTJunctions(
+  geometry: THREE.BufferGeometry,
+  tolerance: number = T_JUNCTION_TOLERANCE
+): THREE.BufferGeometry {
+  const positions = geometry.getAttribute('position');
+  const triangles: number[] = Array.from(geometry.index!.array);
+  const point = (v: number) => new THREE.Vector3().fromBufferAttribute(positions, v);
+
+  for (let pass = 0; pass < MAX_T_JUNCTION_PASSES; pass++) {
+    // Undirected edge usage
+    const edgeCounts = new Map<string, number>();
+    const edgeKey = (a: number, b: number) => (a < b ? `${a},${b}` : `${b},${a}`);
+    for (let i = 0; i < triangles.length; i += 3) {
+      for (let k = 0; k < 3; k++) {
+        const key = edgeKey(triangles[i + k], triangles[i + (k + 1) % 3]);
+        edgeCounts.set(key, (edgeCounts.get(key) || 0) + 1);
+      }
+    }
+
+    // Only vertices on open edges can be T-junctions
+    const boundaryVertices = new Set<number>();
+    for (const [key, count] of edgeCounts) {
+      if (count === 1) {
+        key.split(',').forEach(v => boundaryVertices.add(Number(v)));
+      }
+    }
+    if (boundaryVertices.size === 0) break;
+
+    const candidates = [...boundaryVertices].map(v => ({ v, p: point(v) }));
+    const result: number[] = [];
+    let changed = false;
+
+    for (let i = 0; i < triangles.length; i += 3) {
+      const tri = [triangles[i], triangles[i + 1], triangles[i + 2]];
+      let split = false;
+
+      for (let k = 0; k < 3 && !split; k++) {
+        const a = tri[k];
+        const b = tri[(k + 1) % 3];
+        const c = tri[(k + 2) % 3];
+        if (edgeCounts.get(edgeKey(a, b)) !== 1) continue;
+
+        const pa = point(a);
+        const edge = point(b).sub(pa);
+        const lengthSq = edge.lengthSq();
+        if (lengthSq === 0) continue;
+
+        // Closest vertex along the edge that sits on it
+        let best = -1;
+        let bestT = 1;
+        for (const { v, p } of candidates) {
+          if (v === a || v === b || v === c) continue;
+          const t = p.clone().sub(pa).dot(edge) / lengthSq;
+          if (t <= 0 || t >= bestT) continue;
+          const distance = pa.clone().addScaledVector(edge, t).distanceTo(p);
+          if (distance < tolerance) {
+            best = v;
+            bestT = t;
+          }
+        }
+
+        if (best >= 0) {
+          result.push(a, best, c, best, b, c);
+          split = true;
+          changed = true;
+        }
+      }
+
+      if (!split) {
+        result.push(...tri);
+      }
+    }
+
+    triangles.length = 0;
+    triangles.push(...result);
+    if (!changed) break;
+  }
+
+  const repaired = new THREE.BufferGeometry();
+  repaired.setAttribute('position', positions);
+  repaired.setIndex(triangles);
+  repaired.computeVertexNormals();
+  return repaired;
+}
+
+/**
+ * Validate that an object forms closed, manifold, consistently wound shells
+ */
+export function validateMesh(object: THREE.Object3D): MeshValidationReport {
+  const raw = collectWorldGeometry(object);
+  const rawVertexCount = raw.getAttribute('position').count;
+  const geometry = weldGeometry(raw);
+
+  const positions = geometry.getAttribute('position');
+  const index = geometry.index!;
+  const vertexCount = positions.count;
+
+  // Gather non-degenerate triangles and directed edge usage
+  const triangles: [number, number, number][] = [];
+  const directedEdges = new Map<string, number>();
+  let degenerateTriangles = 0;
+
+  for (let i = 0; i < index.count; i += 3) {
+    const a = index.getX(i);
+    const b = index.getX(i + 1);
+    const c = index.getX(i + 2);
+
+    if (a === b || b === c || a === c) {
+      degenerateTriangles++;
+      continue;
+    }
+
+    triangles.push([a, b, c]);
+    for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+      const key = `${from},${to}`;
+      directedEdges.set(key, (directedEdges.get(key) || 0) + 1);
+    }
+  }
+
+  // Classify undirected edges
+  const boundaryVertices = new Set<number>();
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+
+  for (const [key, forward] of directedEdges) {
+    const [from, to] = key.split(',').map(Number);
+    const backward = directedEdges.get(`${to},${from}`) || 0;
+
+    // Visit every undirected edge once
+    if (backward > 0 && from > to) continue;
+
+    const total = forward + backward;
+    if (total === 1) {
+      boundaryEdges++;
+      boundaryVertices.add(from);
+      boundaryVertices.add(to);
+    } else if (total > 2) {
+      nonManifoldEdges++;
+    } else if (forward !== backward) {
+      inconsistentEdges++;
+    }
+  }
+
+  // Connected shells via union-find over shared vertices
+  const parent = new Int32Array(vertexCount).map((_, i) => i);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]];
+      v = parent[v];
+    }
+    return v;
+  };
+  for (const [a, b, c] of triangles) {
+    parent[find(b)] = find(a);
+    parent[find(c)] = find(a);
+  }
+
+  const shells = new Map<number, { vertices: Set<number>; triangles: [number, number, number][] }>();
+  for (const triangle of triangles) {
+    const root = find(triangle[0]);
+    if (!shells.has(root)) {
+      shells.set(root, { vertices: new Set(), triangles: [] });
+    }
+    const shell = shells.get(root)!;
+    shell.triangles.push(triangle);
+    triangle.forEach(v => shell.vertices.add(v));
+  }
+
+  const shellList = [...shells.values()];
+  const openShells = shellList.filter(shell =>
+    [...shell.vertices].some(v => boundaryVertices.has(v))
+  ).length;
+
+  const overlappingShells = countOverlappingShells(shellList, positions);
+
+  const issues: string[] = [];
+  if (degenerateTriangles > 0) {
+    issues.push(`${degenerateTriangles} degenerate (zero-area) triangles`);
+  }
+  if (boundaryEdges > 0) {
+    issues.push(`${boundaryEdges} open edges: ${openShells} shell(s) are not closed`);
+  }
+  if (nonManifoldEdges > 0) {
+    issues.push(`${nonManifoldEdges} non-manifold edges shared by more than two faces`);
+  }
+  if (inconsistentEdges > 0) {
+    issues.push(`${inconsistentEdges} edges with inconsistent face winding`);
+  }
+  if (overlappingShells > 0) {
+    issues.push(`${overlappingShells} overlapping shells (slicers report intersecting parts)`);
+  }
+
+  return {
+    triangleCount: triangles.length + degenerateTriangles,
+    vertexCount,
+    weldedVertices: rawVertexCount - vertexCount,
+    degenerateTriangles,
+    boundaryEdges,
+    nonManifoldEdges,
+    inconsistentEdges,
+    shellCount: shellList.length,
+    openShells,
+    overlappingShells,
+    isWatertight: boundaryEdges === 0 && nonManifoldEdges === 0 && inconsistentEdges === 0,
+    issues
+  };
+}
+
+/**
+ * Count shells that have vertices inside another closed shell
+ */
+function countOverlappingShells(
+  shells: { vertices: Set<number>; triangles: [number, number, number][] }[],
+  positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute
+): number {
+  const point = (v: number) => new THREE.Vector3().fromBufferAttribute(positions, v);
+
+  const boxes = shells.map(shell => {
+    const box = new THREE.Box3();
+    shell.vertices.forEach(v => box.expandByPoint(point(v)));
+    return box;
+  });
+
+  const overlapping = new Set<number>();
+  for (let i = 0; i < shells.length; i++) {
+    for (let j = 0; j < shells.length; j++) {
+      if (i === j || !boxes[i].intersectsBox(boxes[j])) continue;
+
+      const samples = [...shells[i].vertices];
+      const step = Math.max(1, Math.floor(samples.length / OVERLAP_SAMPLE_SIZE));
+
+      for (let k = 0; k < samples.length; k += step) {
+        const p = point(samples[k]);
+        if (boxes[j].containsPoint(p) && isPointInsideShell(p, shells[j].triangles, positions)) {
+          overlapping.add(i);
+          overlapping.add(j);
+          break;
+        }
+      }
+    }
+  }
+
+  return overlapping.size;
+}
+
+/**
+ * Point-in-solid test by counting ray crossings along +X
+ */
+function isPointInsideShell(
+  p: THREE.Vector3,
+  triangles: [number, number, number][],
+  positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute
+): boolean {
+  const ray = new THREE.Ray(p, new THREE.Vector3(1, 0.0001, 0.0002).normalize());
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const hit = new THREE.Vector3();
+  let crossings = 0;
+
+  for (const [ia, ib, ic] of triangles) {
+    a.fromBufferAttribute(positions, ia);
+    b.fromBufferAttribute(positions, ib);
+    c.fromBufferAttribute(positions, ic);
+    if (ray.intersectTriangle(a, b, c, false, hit) && hit.distanceTo(p) > WELD_TOLERANCE) {
+      crossings++;
+    }
+  }
+
+  return crossings % 2 === 1;
+}
+
+/**
+ * Convert a Three.js mesh to a JSCAD solid
+ */
+function meshToGeom3(mesh: THREE.Mesh): Geom3 {
+  const geometry = collectWorldGeometry(mesh);
+  const positions = geometry.getAttribute('position');
+  const polygons: [number, number, number][][] = [];
+
+  for (let i = 0; i < positions.count; i += 3) {
+    polygons.push([0, 1, 2].map(k => [
+      positions.getX(i + k),
+      positions.getY(i + k),
+      positions.getZ(i + k)
+    ]) as [number, number, number][]);
+  }
+
+  return geometries.geom3.fromPoints(polygons);
+}
+
+/**
+ * Convert a JSCAD solid back to a Three.js geometry
+ */
+function geom3ToGeometry(geom: Geom3): THREE.BufferGeometry {
+  const positions: number[] = [];
+
+  for (const polygon of geometries.geom3.toPolygons(geom)) {
+    const vertices = polygon.vertices;
+    // Fan-triangulate the (convex) polygon
+    for (let i = 1; i < vertices.length - 1; i++) {
+      positions.push(...vertices[0], ...vertices[i], ...vertices[i + 1]);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+
+  return repairGeometry(geometry);
+}
+
+/**
+ * Union all meshes of an object into one solid mesh
+ */
+export function unionMeshes(object: THREE.Object3D): THREE.Mesh {
+  const solids: Geom3[] = [];
+  let material: THREE.Material | THREE.Material[] | null = null;
+
+  object.updateWorldMatrix(true, true);
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry) {
+      solids.push(meshToGeom3(child));
+      material = material || child.material;
+    }
+  });
+
+  if (solids.length === 0) {
+    throw new Error('No meshes to combine');
+  }
+
+  const combined = solids.length > 1 ? booleans.union(solids) : solids[0];
+
+  // Booleans leave T-junctions behind; snapping and re-triangulating closes them
+  const generalized = generalize({ snap: true, triangulate: true }, combined);
+
+  const mesh = new THREE.Mesh(
+    geom3ToGeometry(generalized),
+    material || new THREE.MeshStandardMaterial({ color: 0xffa726 })
+  );
+  mesh.name = object.name || 'cookieCutter';
+  return mesh;
+}
+
+/**
+ * Weld, and if needed union, an object into a single printable mesh
+ */
+export function repairMesh(object: THREE.Object3D): {
+  mesh: THREE.Mesh;
+  before: MeshValidationReport;
+  after: MeshValidationReport;
+} {
+  const before = validateMesh(object);
+
+  let mesh: THREE.Mesh;
+  if (before.overlappingShells > 0 || !before.isWatertight) {
+    mesh = unionMeshes(object);
+  } else {
+    let material: THREE.Material | THREE.Material[] | null = null;
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        material = material || child.material;
+      }
+    });
+    mesh = new THREE.Mesh(
+      weldGeometry(collectWorldGeometry(object)),
+      material || new THREE.MeshStandardMaterial({ color: 0xffa726 })
+    );
+    mesh.name = object.name || 'cookieCutter';
+  }
+
+  // Keep the material preset so exporters can name the material
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.userData.materialId && !mesh.userData.materialId) {
+      mesh.userData.materialId = child.userData.materialId;
+    }
+  });
+
+  return { mesh, before, after: validateMesh(mesh) };
+}
+
+/**
+ * Repair every item of a batch (a group of groups) on its own, so formats
+ * that store several objects keep the items and their placement apart.
+ * Anything else is repaired into a single mesh.
+ */
+export function repairItems(object: THREE.Object3D): {
+  mesh: THREE.Mesh | THREE.Group;
+  before: MeshValidationReport;
+  after: MeshValidationReport;
+} {
+  const isBatch = object instanceof THREE.Group && object.children.some(child => child instanceof THREE.Group);
+  if (!isBatch) {
+    return repairMesh(object);
+  }
+
+  const before = validateMesh(object);
+  const group = new THREE.Group();
+  group.name = object.name;
+  object.updateMatrixWorld(true);
+
+  for (const item of object.children) {
+    const { mesh } = repairMesh(item);
+
+    // Back into the item's own frame, placed by its transform
+    mesh.geometry.applyMatrix4(item.matrixWorld.clone().invert());
+    const wrapper = new THREE.Group();
+    wrapper.name = item.name;
+    wrapper.applyMatrix4(item.matrix);
+    wrapper.add(mesh);
+    group.add(wrapper);
+  }
+
+  return { mesh: group, before, after: validateMesh(group) };
+}
@@ -0,0 +1,241 @@
+import type { CookieCutterParams } from '../types/CookieCutter';
+import type { TextFont } from './fontLoader';
+import { layoutText, type TextOutlineOptions } from './textOutline';
+import { getFilledRings } from './booleanOperations';
+import {
+  offsetPath,
+  offsetPaths,
+  offsetOpenPath,
+  unionPaths,
+  pathArea,
+  pathCentroid,
+  isPointInPath,
+} from './pathOperations';
+import { findNarrowGaps } from './shapeAnalyzer';
+import { createJoiningTabs } from './outlineRepair';
+import { pathToSVGData, getPathsBounds, type PathPoint } from './svgPathExtractor';
+
+/**
+ * What holds the letters of a name together besides their own overlap
+ */
+export type NameCutterBacking = 'none' | 'bar' | 'border';
+
+export interface NameCutterOptions {
+  overlap: number; // mm each letter's outline reaches into the one before it
+  weldGap: number; // gaps between letters narrower than this are bridged, mm
+  backing: NameCutterBacking;
+  margin: number; // mm the bar or border reaches past the letters
+  barHeight: number; // mm
+  joinPieces: boolean; // join pieces still apart to the largest one with tabs
+  tabWidth: number; // mm
+  minCounterWidth: number; // clear width needed to push dough out of a counter, mm
+  fillNarrowCounters: boolean; // leave narrow counters uncut instead of imprinting them
+}
+
+/**
+ * A counter (the enclosed inside of a letter like "A" or "O") of the
+ * welded outline
+ */
+export interface NameCutterCounter {
+  outline: PathPoint[];
+  center: PathPoint;
+  width: number; // clear width left inside the counter's rib, mm
+  tooNarrow: boolean;
+  filled: boolean;
+}
+
+/**
+ * A welded name cutter. Outlines are in millimetres with y pointing down.
+ */
+export interface NameCutterResult {
+  svg: string;
+  outlines: PathPoint[][]; // outer paths of the cutter
+  letters: PathPoint[][]; // the welded letters, outer paths and counters
+  counters: NameCutterCounter[];
+  pieces: number; // separate cutters the name falls into
+  tabs: number; // tabs added to join pieces
+  width: number;
+  height: number;
+}
+
+/**
+ * Clear width (in mm) a counter needs for a fingertip or skewer to push the
+ * dough out
+ */
+export const MIN_COUNTER_WIDTH = 5;
+
+/**
+ * Precision (in mm) of the counter width measurement
+ */
+const WIDTH_PRECISION = 0.1;
+
+/**
+ * Stroke width (in mm) of the detail lines written into the design
+ */
+const DETAIL_STROKE_WIDTH = 0.5;
+
+/**
+ * Decimal places kept for coordinates written into the design
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Name cutter settings that weld most fonts at the usual letter heights
+ */
+export function getDefaultNameCutterOptions(): NameCutterOptions {
+  return {
+    overlap: 1.5,
+    weldGap: 1,
+    backing: 'none',
+    margin: 3,
+    barHeight: 6,
+    joinPieces: true,
+    tabWidth: 4,
+    minCounterWidth: MIN_COUNTER_WIDTH,
+    fillNarrowCounters: true,
+  };
+}
+
+/**
+ * Extend a polyline by `distance` past both of its ends
+ */
+function extendLine(points: PathPoint[], distance: number): PathPoint[] {
+  const extend = (end: PathPoint, towards: PathPoint): PathPoint => {
+    const length = Math.hypot(end.x - towards.x, end.y - towards.y) || 1;
+    return {
+      x: end.x + ((end.x - towards.x) / length) * distance,
+      y: end.y + ((end.y - towards.y) / length) * distance,
+    };
+  };
+
+  const last = points.length - 1;
+  return [extend(points[0], points[1]), ...points.slice(1, last), extend(points[last], points[last - 1])];
+}
+
+/**
+ * Widest circle that fits inside a closed path, to `WIDTH_PRECISION`
+ */
+async function measureInscribedWidth(path: PathPoint[]): Promise<number> {
+  const bounds = getPathsBounds([path]);
+  let low = 0;
+  let high = Math.min(bounds.width, bounds.height);
+
+  while (high - low > WIDTH_PRECISION) {
+    const width = (low + high) / 2;
+    const shrunk = await offsetPath(path, -width / 2, 'round');
+    if (shrunk.some(p => Math.abs(pathArea(p)) > 0)) {
+      low = width;
+    } else {
+      high = width;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Round coordinates for writing them into the SVG
+ */
+function roundPoints(points: PathPoint[]): PathPoint[] {
+  return points.map(p => ({
+    x: +p.x.toFixed(COORDINATE_PRECISION),
+    y: +p.y.toFixed(COORDINATE_PRECISION),
+  }));
+}
+
+/**
+ * Turn a line of text into one cutter whose letters hold together.
+ *
+ * Letters are pulled into each other until their outlines overlap by
+ * `overlap` and welded with a union; gaps narrower than `weldGap` left
+ * between them are bridged, but never inside a counter. A backing bar runs
+ * along the baseline (curved text included); a border instead follows the
+ * whole name at `margin` and the letters become imprint details. Pieces
+ * still apart, like the dot of an "i" or separate words, are joined to the
+ * largest one with tabs when `joinPieces` is on.
+ *
+ * The cutter follows the outer paths only, so counters are written as
+ * imprint details with detail ids. Each counter is measured: the rib
+ * pressed along it takes a wall's width, and what is left has to fit a
+ * fingertip to push the dough out. Counters that are too narrow can be left
+ * uncut instead.
+ */
+export async function createNameCutter(
+  font: TextFont,
+  textOptions: TextOutlineOptions,
+  options: NameCutterOptions,
+  params: CookieCutterParams
+): Promise<NameCutterResult> {
+  const text = layoutText(font, { ...textOptions, weldOverlap: options.overlap });
+
+  let letters = await unionPaths(getFilledRings(text.svg));
+
+  // Bridge the gaps the overlap left between letters
+  if (options.weldGap > 0) {
+    const holes = letters.filter(path => pathArea(path) < 0);
+    const bridges = (await findNarrowGaps(letters, options.weldGap))
+      .filter(gap => pathArea(gap) > 0 && !holes.some(hole => isPointInPath(pathCentroid(gap), hole)));
+    if (bridges.length > 0) {
+      letters = await unionPaths([...letters, ...bridges]);
+    }
+  }
+
+  let region = letters;
+  if (options.backing === 'bar') {
+    const bar = await offsetOpenPath(extendLine(text.baseline, options.margin), options.barHeight, 'round', 'round');
+    region = await unionPaths([...letters, ...bar]);
+  } else if (options.backing === 'border') {
+    region = await offsetPaths(letters.filter(path => pathArea(path) > 0), options.margin, 'round');
+  }
+
+  let tabs = 0;
+  const pieces = region.filter(path => pathArea(path) > 0);
+  if (options.joinPieces && pieces.length > 1) {
+    region = await unionPaths([...region, ...await createJoiningTabs(pieces, options.tabWidth)]);
+    tabs = pieces.length - 1;
+  }
+
+  const outlines = region.filter(path => pathArea(path) > 0);
+  const details: { id: string; points: PathPoint[] }[] = [];
+  const counters: NameCutterCounter[] = [];
+
+  if (options.backing === 'border') {
+    // The border is the cutter; the letters are pressed in
+    letters.forEach((path, i) => details.push({ id: `detail-letter-${i + 1}`, points: path }));
+  } else {
+    for (const hole of region.filter(path => pathArea(path) < 0)) {
+      const outline = [...hole].reverse();
+      const width = (await measureInscribedWidth(outline)) - params.wallThickness;
+      const tooNarrow = width < options.minCounterWidth;
+      const filled = tooNarrow && options.fillNarrowCounters;
+
+      counters.push({ outline, center: pathCentroid(outline), width: Math.max(0, width), tooNarrow, filled });
+      if (!filled) {
+        details.push({ id: `detail-counter-${details.length + 1}`, points: outline });
+      }
+    }
+  }
+
+  const bounds = getPathsBounds(outlines);
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  const viewBox = [bounds.minX, bounds.minY, bounds.width, bounds.height].map(round).join(' ');
+  const elements = [
+    ...outlines.map(path => `  <path d="${pathToSVGData(roundPoints(path))}" fill="black"/>`),
+    ...details.map(detail =>
+      `  <path id="${detail.id}" d="${pathToSVGData(roundPoints(detail.points))}" ` +
+      `fill="none" stroke="#808080" stroke-width="${DETAIL_STROKE_WIDTH}"/>`
+    ),
+  ];
+
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${round(bounds.width)}mm" height="${round(bounds.height)}mm" ` +
+      `viewBox="${viewBox}">\n${elements.join('\n')}\n</svg>`,
+    outlines,
+    letters,
+    counters,
+    pieces: outlines.length,
+    tabs,
+    width: bounds.width,
+    height: bounds.height,
+  };
+}
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import type { SliceLayer } from './slicer';
+import { createLayerGeometry } from './slicer';
+
+/**
+ * A buffer attribute as plain data
+ */
+interface SerializedAttribute {
+  array: Float32Array | Uint32Array | Uint16Array;
+  itemSize: number;
+  normalized: boolean;
+}
+
+/**
+ * A mesh or group as plain data that can be posted to or from a worker.
+ * Geometry arrays are typed arrays, so their buffers can be transferred.
+ */
+export interface SerializedObject {
+  type: 'Mesh' | 'Group' | 'Object3D';
+  name: string;
+  matrix: number[]; // local transform, column-major
+  userData: Record<string, unknown>;
+  geometry?: {
+    attributes: Record<string, SerializedAttribute>;
+    index: SerializedAttribute | null;
+    groups: { start: number; count: number; materialIndex?: number }[];
+  };
+  material?: unknown; // Material.toJSON() output, or an array of them
+  children: SerializedObject[];
+}
+
+/**
+ * A slice layer without its preview geometry, which is rebuilt on arrival
+ */
+export interface SerializedSliceLayer {
+  z: number;
+  contours: Float32Array[]; // x, y pairs
+}
+
+/**
+ * Convert an object tree into plain data. Arrays are copied, so
+ * transferring them leaves the original object intact.
+ */
+export function serializeObject(object: THREE.Object3D): SerializedObject {
+  object.updateMatrix();
+
+  const data: SerializedObject = {
+    type: object instanceof THREE.Mesh ? 'Mesh' : object instanceof THREE.Group ? 'Group' : 'Object3D',
+    name: object.name,
+    matrix: object.matrix.toArray(),
+    userData: { ...object.userData },
+    children: object.children.map(serializeObject),
+  };
+
+  if (object instanceof THREE.Mesh) {
+    const geometry = object.geometry as THREE.BufferGeometry;
+    const attributes: Record<string, SerializedAttribute> = {};
+    for (const [name, attribute] of Object.entries(geometry.attributes)) {
+      if (attribute instanceof THREE.BufferAttribute) {
+        attributes[name] = serializeAttribute(attribute);
+      }
+    }
+
+    data.geometry = {
+      attributes,
+      index: geometry.index ? serializeAttribute(geometry.index) : null,
+      groups: geometry.groups.map(group => ({ ...group })),
+    };
+    data.material = Array.isArray(object.material)
+      ? object.material.map(material => material.toJSON())
+      : object.material.toJSON();
+  }
+
+  return data;
+}
+
+/**
+ * Rebuild an object tree from plain data
+ */
+export function deserializeObject(data: SerializedObject): THREE.Object3D {
+  let object: THREE.Object3D;
+
+  if (data.type === 'Mesh' && data.geometry) {
+    const geometry = new THREE.BufferGeometry();
+    for (const [name, attribute] of Object.entries(data.geometry.attributes)) {
+      geometry.setAttribute(name, deserializeAttribute(attribute));
+    }
+    if (data.geometry.index) {
+      geometry.setIndex(deserializeAttribute(data.geometry.index));
+    }
+    for (const group of data.geometry.groups) {
+      geometry.addGroup(group.start, group.count, group.materialIndex);
+    }
+
+    const loader = new THREE.MaterialLoader();
+    const material = Array.isArray(data.material)
+      ? data.material.map(json => loader.parse(json))
+      : loader.parse(data.material);
+    object = new THREE.Mesh(geometry, material);
+  } else {
+    object = data.type === 'Group' ? new THREE.Group() : new THREE.Object3D();
+  }
+
+  object.name = data.name;
+  object.userData = data.userData;
+  object.matrix.fromArray(data.matrix);
+  object.matrix.decompose(object.position, object.quaternion, object.scale);
+
+  for (const child of data.children) {
+    object.add(deserializeObject(child));
+  }
+
+  return object;
+}
+
+/**
+ * Convert slice layers into plain data
+ */
+export function serializeSliceLayers(layers: SliceLayer[]): SerializedSliceLayer[] {
+  return layers.map(layer => ({
+    z: layer.z,
+    contours: layer.contours.map(contour => new Float32Array(contour.flatMap(p => [p.x, p.y]))),
+  }));
+}
+
+/**
+ * Rebuild slice layers, including their preview geometry
+ */
+export function deserializeSliceLayers(layers: SerializedSliceLayer[]): SliceLayer[] {
+  return layers.map(layer => {
+    const contours = layer.contours.map(contour => {
+      const points: THREE.Vector2[] = [];
+      for (let i = 0; i < contour.length; i += 2) {
+        points.push(new THREE.Vector2(contour[i], contour[i + 1]));
+      }
+      return points;
+    });
+    return { z: layer.z, contours, geometry: createLayerGeometry(contours, layer.z) };
+  });
+}
+
+/**
+ * Buffers of every typed array reachable from a value, for postMessage's
+ * transfer list
+ */
+export function collectTransferables(value: unknown, buffers: Set<ArrayBuffer> = new Set()): ArrayBuffer[] {
+  if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) buffers.add(value.buffer);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTransferables(item, buffers));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectTransferables(item, buffers));
+  }
+  return [...buffers];
+}
+
+/**
+ * Copy a buffer attribute into plain data
+ */
+function serializeAttribute(attribute: THREE.BufferAttribute): SerializedAttribute {
+  return {
+    array: (attribute.array as Float32Array | Uint32Array | Uint16Array).slice(),
+    itemSize: attribute.itemSize,
+    normalized: attribute.normalized,
+  };
+}
+
+/**
+ * Rebuild a buffer attribute around its transferred array
+ */
+function deserializeAttribute(attribute: SerializedAttribute): THREE.BufferAttribute {
+  return new THREE.BufferAttribute(attribute.array, attribute.itemSize, attribute.normalized);
+}
@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import type { CookieCutterParams } from '../types/CookieCutter';
+import { getCutterWallLines } from './cookieCutterGenerator';
+
+export type OutlineFormat = 'svg' | 'dxf';
+
+export interface OutlineExportOptions {
+  format: OutlineFormat;
+  lines: 'outline' | 'walls'; // cutting line only, or inner and outer wall lines
+  dxfVersion: 'R12' | 'R2000';
+}
+
+interface OutlineLayer {
+  name: string;
+  color: string; // SVG stroke color
+  aci: number; // AutoCAD color index
+  paths: { x: number; y: number }[][];
+}
+
+/**
+ * Blank space around the outline in SVG output, in mm
+ */
+const SVG_MARGIN = 5;
+
+/**
+ * Stroke width of exported lines; laser software treats hairlines as cuts
+ */
+const SVG_STROKE_WIDTH = 0.1;
+
+/**
+ * Export the final cutter outline as a 2D drawing in millimetres.
+ *
+ * The lines are the Clipper wall offsets of each outline, placed with the
+ * same scale and centering as the generated cutter `object`. The cutting
+ * line is the inner face of the wall, so it matches the cookie's size.
+ */
+export async function exportOutline(
+  svgString: string,
+  params: CookieCutterParams,
+  object: THREE.Object3D,
+  filename: string,
+  options: OutlineExportOptions
+): Promise<void> {
+  const layers = await collectOutlineLayers(svgString, params, object, options.lines);
+  if (layers[0].paths.length === 0) {
+    throw new Error('No outline to export');
+  }
+
+  if (options.format === 'svg') {
+    downloadFile(generateOutlineSVG(layers), filename, 'image/svg+xml');
+  } else {
+    downloadFile(generateOutlineDXF(layers, options.dxfVersion), filename, 'application/dxf');
+  }
+}
+
+/**
+ * Wall lines in scene millimetres, split into drawing layers
+ */
+async function collectOutlineLayers(
+  svgString: string,
+  params: CookieCutterParams,
+  object: THREE.Object3D,
+  lines: OutlineExportOptions['lines']
+): Promise<OutlineLayer[]> {
+  const wallLines = await getCutterWallLines(svgString, params);
+
+  // Outline points lie in the cutter's XZ plane
+  object.updateMatrixWorld(true);
+  const vertex = new THREE.Vector3();
+  const place = (path: { x: number; y: number }[]) => path.map(p => {
+    vertex.set(p.x, 0, p.y).applyMatrix4(object.matrixWorld);
+    return { x: vertex.x, y: vertex.z };
+  });
+
+  const layers: OutlineLayer[] = [
+    {
+      name: lines === 'walls' ? 'INNER_WALL' : 'OUTLINE',
+      color: '#ff0000',
+      aci: 1,
+      paths: wallLines.map(line => place(line.inner)),
+    },
+  ];
+  if (lines === 'walls') {
+    layers.push({
+      name: 'OUTER_WALL',
+      color: '#0000ff',
+      aci: 5,
+      paths: wallLines.map(line => place(line.outer)),
+    });
+  }
+
+  return layers;
+}
+
+/**
+ * SVG with one group per layer, sized in millimetres (1 user unit = 1mm)
+ */
+function generateOutlineSVG(layers: OutlineLayer[]): string {
+  const bounds = getLayerBounds(layers);
+  const minX = bounds.min.x - SVG_MARGIN;
+  const minY = bounds.min.y - SVG_MARGIN;
+  const width = bounds.max.x - bounds.min.x + SVG_MARGIN * 2;
+  const height = bounds.max.y - bounds.min.y + SVG_MARGIN * 2;
+
+  const groups = layers.map(layer => {
+    const paths = layer.paths.map(path => {
+      const d = path
+        .map((p, i) => `${i === 0 ? 'M' : 'L'} ${formatNumber(p.x)} ${formatNumber(p.y)}`)
+        .join(' ');
+      return `    <path d="${d} Z" />`;
+    }).join('\n');
+
+    return `  <g id="${layer.name.toLowerCase().replace(/_/g, '-')}" fill="none" stroke="${layer.color}" stroke-width="${SVG_STROKE_WIDTH}">
+${paths}
+  </g>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width)}mm" height="${formatNumber(height)}mm" viewBox="${formatNumber(minX)} ${formatNumber(minY)} ${formatNumber(width)} ${formatNumber(height)}">
+${groups}
+</svg>`;
+}
+
+/**
+ * DXF drawing in millimetres. R12 writes POLYLINE/VERTEX entities, R2000
+ * writes LWPOLYLINE entities with handles. The Y axis is flipped because
+ * DXF points up where SVG points down.
+ */
+function generateOutlineDXF(layers: OutlineLayer[], version: OutlineExportOptions['dxfVersion']): string {
+  const isR2000 = version === 'R2000';
+  const lines: (string | number)[] = [];
+  const group = (code: number, value: string | number) => lines.push(code, value);
+  let handle = 0x100;
+  const nextHandle = () => (handle++).toString(16).toUpperCase();
+
+  const bounds = getLayerBounds(layers);
+
+  // Header
+  group(0, 'SECTION');
+  group(2, 'HEADER');
+  group(9, '$ACADVER');
+  group(1, isR2000 ? 'AC1015' : 'AC1009');
+  group(9, '$EXTMIN');
+  group(10, formatNumber(bounds.min.x));
+  group(20, formatNumber(-bounds.max.y));
+  group(9, '$EXTMAX');
+  group(10, formatNumber(bounds.max.x));
+  group(20, formatNumber(-bounds.min.y));
+  if (isR2000) {
+    group(9, '$INSUNITS');
+    group(70, 4); // millimetres
+    group(9, '$MEASUREMENT');
+    group(70, 1); // metric
+  }
+  group(0, 'ENDSEC');
+
+  // Layer table
+  group(0, 'SECTION');
+  group(2, 'TABLES');
+  group(0, 'TABLE');
+  group(2, 'LAYER');
+  if (isR2000) group(5, nextHandle());
+  group(70, layers.length);
+  for (const layer of layers) {
+    group(0, 'LAYER');
+    if (isR2000) {
+      group(5, nextHandle());
+      group(100, 'AcDbSymbolTableRecord');
+      group(100, 'AcDbLayerTableRecord');
+    }
+    group(2, layer.name);
+    group(70, 0);
+    group(62, layer.aci);
+    group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  // Entities
+  group(0, 'SECTION');
+  group(2, 'ENTITIES');
+  for (const layer of layers) {
+    for (const path of layer.paths) {
+      if (isR2000) {
+        group(0, 'LWPOLYLINE');
+        group(5, nextHandle());
+        group(100, 'AcDbEntity');
+        group(8, layer.name);
+        group(100, 'AcDbPolyline');
+        group(90, path.length);
+        group(70, 1); // closed
+        for (const p of path) {
+          group(10, formatNumber(p.x));
+          group(20, formatNumber(-p.y));
+        }
+      } else {
+        group(0, 'POLYLINE');
+        group(8, layer.name);
+        group(66, 1); // vertices follow
+        group(10, 0);
+        group(20, 0);
+        group(30, 0);
+        group(70, 1); // closed
+        for (const p of path) {
+          group(0, 'VERTEX');
+          group(8, layer.name);
+          group(10, formatNumber(p.x));
+          group(20, formatNumber(-p.y));
+          group(30, 0);
+        }
+        group(0, 'SEQEND');
+        group(8, layer.name);
+      }
+    }
+  }
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Bounding box of every path of every layer
+ */
+function getLayerBounds(layers: OutlineLayer[]): THREE.Box2 {
+  const box = new THREE.Box2();
+  for (const layer of layers) {
+    for (const path of layer.paths) {
+      for (const p of path) {
+        box.expandByPoint(new THREE.Vector2(p.x, p.y));
+      }
+    }
+  }
+  return box;
+}
+
+/**
+ * Format a coordinate with micrometre precision and no trailing zeros
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Download file helper
+ */
+function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,228 @@
+import type { CookieCutterParams } from '../types/CookieCutter';
+import {
+  offsetPaths,
+  offsetOpenPath,
+  unionPaths,
+  differencePaths,
+  pathArea,
+} from './pathOperations';
+import { classifyPaths } from './pathClassifier';
+import { parseSVGPaths } from './svgParser';
+import { measureCookieCutter } from './cookieCutterGenerator';
+import { findNarrowParts, findNarrowGaps, MIN_GAP_WIDTH, MIN_ISLAND_AREA } from './shapeAnalyzer';
+import { pathToSVGData, type PathPoint } from './svgPathExtractor';
+
+/**
+ * Limits the "make printable" pass enforces, in millimetres
+ */
+export interface OutlineRepairOptions {
+  minFeatureWidth: number; // narrower necks are widened
+  minGapWidth: number; // narrower gaps and notches are filled
+  minIslandArea: number; // smaller separate pieces are removed (mm²)
+  connectPieces: boolean; // join the remaining separate pieces to the main outline
+  tabWidth: number; // width of the connector tabs
+}
+
+/**
+ * Outcome of the "make printable" pass. Outlines are in SVG user units.
+ */
+export interface OutlineRepairResult {
+  svg: string; // the design with its outline replaced
+  before: PathPoint[][];
+  after: PathPoint[][];
+  added: PathPoint[][]; // areas the pass filled in
+  removed: PathPoint[][]; // areas the pass took away
+  changes: {
+    addedArea: number; // mm²
+    removedArea: number; // mm²
+    widenedNecks: number;
+    filledGaps: number;
+    removedIslands: number;
+    tabs: number;
+  };
+}
+
+/**
+ * Stroke width (in mm) of the detail lines written back into the design
+ */
+const DETAIL_STROKE_WIDTH = 0.5;
+
+/**
+ * Decimal places kept for coordinates written back into the design
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Extra width (in mm) on the default limits, so repaired parts clear the
+ * printability checks instead of landing right on their limits
+ */
+const REPAIR_MARGIN = 0.2;
+
+/**
+ * Limits matching what the cutter's walls can reproduce: parts narrower
+ * than two walls and a gap fuse solid, and gaps that narrow close up
+ */
+export function getDefaultRepairOptions(params: CookieCutterParams): OutlineRepairOptions {
+  const minWidth = params.wallThickness + MIN_GAP_WIDTH + REPAIR_MARGIN;
+  return {
+    minFeatureWidth: minWidth,
+    minGapWidth: minWidth,
+    minIslandArea: MIN_ISLAND_AREA,
+    connectPieces: false,
+    tabWidth: 2 * minWidth,
+  };
+}
+
+/**
+ * Total area of a region made of Clipper outer paths and holes
+ */
+function regionArea(paths: PathPoint[][]): number {
+  return paths.reduce((sum, path) => sum + pathArea(path), 0);
+}
+
+/**
+ * Round coordinates for writing them into the SVG
+ */
+function roundPoints(points: PathPoint[]): PathPoint[] {
+  return points.map(p => ({
+    x: +p.x.toFixed(COORDINATE_PRECISION),
+    y: +p.y.toFixed(COORDINATE_PRECISION),
+  }));
+}
+
+/**
+ * Closest pair of vertices between two paths
+ */
+function closestPoints(a: PathPoint[], b: PathPoint[]): [PathPoint, PathPoint] {
+  let best: [PathPoint, PathPoint] = [a[0], b[0]];
+  let bestDistance = Infinity;
+
+  for (const p of a) {
+    for (const q of b) {
+      const distance = (p.x - q.x) ** 2 + (p.y - q.y) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = [p, q];
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Outline of a tab joining two points, reaching `overlap` past each end so
+ * it fuses with the pieces on both sides
+ */
+async function createTab(from: PathPoint, to: PathPoint, width: number, overlap: number): Promise<PathPoint[][]> {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  const dx = ((to.x - from.x) / length) * overlap;
+  const dy = ((to.y - from.y) / length) * overlap;
+
+  return offsetOpenPath(
+    [{ x: from.x - dx, y: from.y - dy }, { x: to.x + dx, y: to.y + dy }],
+    width,
+    'miter',
+    'butt'
+  );
+}
+
+/**
+ * Tabs joining every separate piece of a region (outer paths only) to the
+ * largest one, between their closest points
+ */
+export async function createJoiningTabs(pieces: PathPoint[][], tabWidth: number): Promise<PathPoint[][]> {
+  const [main, ...others] = [...pieces].sort((a, b) => pathArea(b) - pathArea(a));
+  const tabPaths: PathPoint[][] = [];
+  for (const piece of others) {
+    const [from, to] = closestPoints(piece, main);
+    tabPaths.push(...await createTab(from, to, tabWidth, tabWidth));
+  }
+  return tabPaths;
+}
+
+/**
+ * Make a cutter's outline printable: widen necks narrower than the walls
+ * can follow, fill gaps and notches they would close up, drop specks and
+ * optionally join the separate pieces left to the main one with tabs.
+ *
+ * Works on the cutting outlines in millimetres and writes them back into
+ * the SVG as filled paths, keeping the root element (and so the design's
+ * size). Interior details are written back as stroked paths with detail
+ * ids, which every detail mode reads as details again.
+ */
+export async function repairOutline(
+  svgString: string,
+  params: CookieCutterParams,
+  options: OutlineRepairOptions = getDefaultRepairOptions(params)
+): Promise<OutlineRepairResult> {
+  const paths = parseSVGPaths(svgString);
+  if (paths.length === 0) {
+    throw new Error('No paths found in SVG');
+  }
+
+  const { outlines, details } = await classifyPaths(paths, params.detailMode);
+  const { scaleX, scaleY } = await measureCookieCutter(svgString, params);
+  const toMillimetres = (points: PathPoint[]) => points.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }));
+  const toUnits = (points: PathPoint[]) => roundPoints(points.map(p => ({ x: p.x / scaleX, y: p.y / scaleY })));
+
+  // The cutter follows the outer ring of each outline shape
+  const original = await unionPaths(outlines.map(shape => toMillimetres(shape.getPoints())));
+  let region = original;
+
+  // Widen necks by growing their narrow parts to the minimum width
+  const necks = await findNarrowParts(region, options.minFeatureWidth);
+  if (necks.length > 0) {
+    region = await unionPaths([...region, ...await offsetPaths(necks, options.minFeatureWidth / 2, 'round')]);
+  }
+
+  // Fill the gaps the walls would close up, merging pieces that nearly touch
+  const gaps = await findNarrowGaps(region, options.minGapWidth);
+  if (gaps.length > 0) {
+    region = await unionPaths([...region, ...gaps]);
+  }
+
+  // Drop specks; holes left between pieces are not cut, so drop those too
+  const pieces = region.filter(path => pathArea(path) > 0);
+  const kept = pieces.filter(path => pathArea(path) >= options.minIslandArea);
+  const removedIslands = pieces.length - kept.length;
+  region = kept;
+
+  // Join the other pieces to the largest one
+  let tabs = 0;
+  if (options.connectPieces && region.length > 1) {
+    const tabPaths = await createJoiningTabs(region, options.tabWidth);
+    tabs = region.length - 1;
+    region = (await unionPaths([...region, ...tabPaths])).filter(path => pathArea(path) > 0);
+  }
+
+  const added = await differencePaths(region, original);
+  const removed = await differencePaths(original, region);
+
+  // Write the outline back, followed by the details
+  const svgTag = svgString.match(/<svg\b[^>]*>/i)?.[0] ?? '<svg xmlns="http://www.w3.org/2000/svg">';
+  const strokeWidth = +(DETAIL_STROKE_WIDTH / Math.max(scaleX, scaleY)).toFixed(COORDINATE_PRECISION);
+  const elements = [
+    ...region.map(path => `  <path d="${pathToSVGData(toUnits(path))}" fill="black"/>`),
+    ...details.map((detail, i) =>
+      `  <path id="detail-${i + 1}" d="${pathToSVGData(roundPoints(detail.points), detail.closed)}" ` +
+      `fill="none" stroke="#808080" stroke-width="${strokeWidth}"/>`
+    ),
+  ];
+
+  return {
+    svg: `${svgTag}\n${elements.join('\n')}\n</svg>`,
+    before: original.map(toUnits),
+    after: region.map(toUnits),
+    added: added.map(toUnits),
+    removed: removed.map(toUnits),
+    changes: {
+      addedArea: regionArea(added),
+      removedArea: regionArea(removed),
+      widenedNecks: necks.filter(path => pathArea(path) > 0).length,
+      filledGaps: gaps.filter(path => pathArea(path) > 0).length,
+      removedIslands,
+      tabs,
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import { SVGLoader, type SVGResultPaths } from 'three/examples/jsm/loaders/SVGLoader.js';
+import type { DetailMode } from '../types/CookieCutter';
+import { isPointInPath, pathArea } from './pathOperations';
+import { isStrokeOnly, getStrokeLines, getPathShapes } from './svgStrokes';
+
+/**
+ * An interior detail line that becomes an imprint rib
+ */
+export interface DetailPath {
+  points: THREE.Vector2[];
+  closed: boolean;
+}
+
+export interface ClassifiedPaths {
+  outlines: THREE.Shape[];
+  details: DetailPath[];
+}
+
+/**
+ * Element ids, classes and Inkscape layer names that mark detail paths
+ */
+const DETAIL_ID_PATTERN = /detail|imprint|emboss|inner/i;
+
+/**
+ * Split parsed SVG paths into cutting outlines and interior details.
+ *
+ * - `nesting`: shapes (and holes) inside another shape are details
+ * - `color`: paths whose color differs from the largest shape are details
+ * - `stroke`: stroke-only paths (no fill) are details
+ * - `id`: paths whose id, class or layer name mentions "detail"/"imprint" are details
+ *
+ * Stroke-only paths that are cut are expanded to their stroke width.
+ * Stroke-only details keep their centrelines and open ends.
+ */
+export async function classifyPaths(paths: SVGResultPaths[], mode: DetailMode): Promise<ClassifiedPaths> {
+  const shapesOf = async (list: SVGResultPaths[]) => (await Promise.all(list.map(getPathShapes))).flat();
+
+  if (mode === 'none') {
+    return { outlines: await shapesOf(paths), details: [] };
+  }
+
+  if (mode === 'nesting') {
+    return classifyByNesting(await shapesOf(paths));
+  }
+
+  const outlineColor = mode === 'color' ? findOutlineColor(paths) : null;
+  const outlines: THREE.Shape[] = [];
+  const details: DetailPath[] = [];
+
+  for (const path of paths) {
+    let isDetail = false;
+    switch (mode) {
+      case 'color':
+        isDetail = getPathColor(path) !== outlineColor;
+        break;
+      case 'stroke':
+        isDetail = isStrokeOnly(path);
+        break;
+      case 'id':
+        isDetail = hasDetailId(path.userData?.node);
+        break;
+    }
+
+    if (!isDetail) {
+      outlines.push(...await getPathShapes(path));
+    } else if (isStrokeOnly(path)) {
+      // Strokes keep their open ends
+      for (const line of getStrokeLines(path)) {
+        details.push({ points: line.points.map(p => new THREE.Vector2(p.x, p.y)), closed: line.closed });
+      }
+    } else {
+      for (const shape of SVGLoader.createShapes(path)) {
+        details.push({ points: shape.getPoints(), closed: true });
+      }
+    }
+  }
+
+  return { outlines, details };
+}
+
+/**
+ * Classify shapes by how deeply they are nested inside other shapes
+ */
+function classifyByNesting(shapes: THREE.Shape[]): ClassifiedPaths {
+  const outlines: THREE.Shape[] = [];
+  const details: DetailPath[] = [];
+  const rings = shapes.map(shape => shape.getPoints());
+
+  shapes.forEach((shape, i) => {
+    const area = Math.abs(pathArea(rings[i]));
+    const nested = rings.some((ring, j) =>
+      j !== i && Math.abs(pathArea(ring)) > area && isPointInPath(rings[i][0], ring)
+    );
+
+    if (nested) {
+      details.push({ points: rings[i], closed: true });
+      return;
+    }
+
+    // Holes inside an outline are details as well
+    outlines.push(shape);
+    for (const hole of shape.holes) {
+      details.push({ points: hole.getPoints(), closed: true });
+    }
+  });
+
+  return { outlines, details };
+}
+
+/**
+ * Color of the path with the largest filled area
+ */
+function findOutlineColor(paths: SVGResultPaths[]): string | null {
+  let color: string | null = null;
+  let largest = 0;
+
+  for (const path of paths) {
+    for (const shape of SVGLoader.createShapes(path)) {
+      const area = Math.abs(pathArea(shape.getPoints()));
+      if (area > largest) {
+        largest = area;
+        color = getPathColor(path);
+      }
+    }
+  }
+
+  return color;
+}
+
+/**
+ * Normalized fill (or stroke, for unfilled paths) color of a path
+ */
+function getPathColor(path: SVGResultPaths): string {
+  const style = path.userData?.style;
+  const value = style && style.fill !== undefined && style.fill !== 'none' ? style.fill : style?.stroke;
+  if (!value || value === 'none') return 'none';
+
+  try {
+    return new THREE.Color().setStyle(value).getHexString();
+  } catch {
+    return String(value).toLowerCase();
+  }
+}
+
+/**
+ * Check the element and its ancestors for a detail id, class or layer name
+ */
+function hasDetailId(node: Element | undefined): boolean {
+  for (let current: Element | null | undefined = node; current; current = current.parentElement) {
+    const names = [
+      current.getAttribute?.('id'),
+      current.getAttribute?.('class'),
+      current.getAttribute?.('inkscape:label'),
+    ];
+    if (names.some(name => name && DETAIL_ID_PATTERN.test(name))) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -1,13 +1,45 @@
-import { loadNativeClipperLibInstanceAsync } from 'js-angusj-clipper';
+import {
+  loadNativeClipperLibInstanceAsync,
+  NativeClipperLibRequestedFormat,
+  ClipType,
+  EndType,
+  JoinType,
+  PolyFillType,
+  type ClipperLibWrapper,
+  type Path,
+} from 'js-angusj-clipper';
+
+let clipperLib: ClipperLibWrapper | null = null;
 
-let clipperLib: any = null;
+/**
+ * Fixed-point scale used for Clipper's integer coordinates (1000 = 1µm precision)
+ */
+const CLIPPER_SCALE = 1000;
+
+/**
+ * Maximum deviation of round joins from the true arc, in mm
+ */
+const ARC_TOLERANCE = 0.01;
+
+/**
+ * Default miter limit (multiple of the offset distance)
+ */
+const DEFAULT_MITER_LIMIT = 2;
+
+/**
+ * Points closer than this to a neighbour or to the line through their
+ * neighbours are dropped when cleaning a path, in mm
+ */
+const CLEAN_DISTANCE = 0.005;
 
 /**
  * Initialize Clipper library (async)
  */
-async function initClipper() {
+async function initClipper(): Promise<ClipperLibWrapper> {
   if (!clipperLib) {
-    clipperLib = await loadNativeClipperLibInstanceAsync();
+    clipperLib = await loadNativeClipperLibInstanceAsync(
+      NativeClipperLibRequestedFormat.WasmWithAsmJsFallback
+    );
   }
   return clipperLib;
 }
@@ -15,23 +47,29 @@ async function initClipper() {
 /**
  * Convert SVG path points to Clipper path format
  */
-function svgToClipperPath(points: { x: number; y: number }[], scale: number = 100): any[] {
+function svgToClipperPath(points: { x: number; y: number }[], scale: number = CLIPPER_SCALE): Path {
   return points.map(p => ({
-    X: Math.round(p.x * scale),
-    Y: Math.round(p.y * scale)
+    x: Math.round(p.x * scale),
+    y: Math.round(p.y * scale)
   }));
 }
 
 /**
  * Convert Clipper path to SVG points
  */
-function clipperToSvgPath(clipperPath: any[], scale: number = 100): { x: number; y: number }[] {
+function clipperToSvgPath(clipperPath: Path, scale: number = CLIPPER_SCALE): { x: number; y: number }[] {
   return clipperPath.map(p => ({
-    x: p.X / scale,
-    y: p.Y / scale
+    x: p.x / scale,
+    y: p.y / scale
   }));
 }
 
+const joinTypeMap = {
+  miter: JoinType.Miter,
+  round: JoinType.Round,
+  square: JoinType.Square
+};
+
 /**
  * Create offset paths (for wall thickness)
  * Positive delta = outward offset, negative = inward offset
@@ -39,47 +77,108 @@ function clipperToSvgPath(clipperPath: any[], scale: number = 100): { x: number;
 export async function offsetPath(
   points: { x: number; y: number }[],
   offsetDistance: number,
-  joinType: 'miter' | 'round' | 'square' = 'round'
+  joinType: 'miter' | 'round' | 'square' = 'round',
+  miterLimit: number = DEFAULT_MITER_LIMIT
 ): Promise<{ x: number; y: number }[][]> {
   const clipper = await initClipper();
-  const scale = 1000; // Higher scale for precision
 
-  // Convert to Clipper format
-  const clipperPath = svgToClipperPath(points, scale);
+  const offsetted = clipper.offsetToPaths({
+    delta: offsetDistance * CLIPPER_SCALE,
+    miterLimit,
+    arcTolerance: ARC_TOLERANCE * CLIPPER_SCALE,
+    offsetInputs: [{
+      data: svgToClipperPath(points),
+      joinType: joinTypeMap[joinType],
+      endType: EndType.ClosedPolygon
+    }]
+  });
 
-  // Create ClipperOffset instance
-  const co = new clipper.ClipperOffset();
+  return (offsetted || []).map(path => clipperToSvgPath(path));
+}
 
-  // JoinType mapping
-  const joinTypeMap = {
-    miter: clipper.JoinType.Miter,
-    round: clipper.JoinType.Round,
-    square: clipper.JoinType.Square
-  };
+/**
+ * Offset a region made of outer paths and holes as a whole, so holes grow
+ * while outer paths shrink (and vice versa)
+ */
+export async function offsetPaths(
+  paths: { x: number; y: number }[][],
+  offsetDistance: number,
+  joinType: 'miter' | 'round' | 'square' = 'round',
+  miterLimit: number = DEFAULT_MITER_LIMIT
+): Promise<{ x: number; y: number }[][]> {
+  const clipper = await initClipper();
 
-  // Add path
-  co.addPath(
-    clipperPath,
-    joinTypeMap[joinType],
-    clipper.EndType.ClosedPolygon
-  );
-
-  // Execute offset (distance is scaled)
-  const offsetted = new clipper.Paths();
-  co.execute(offsetted, offsetDistance * scale);
-
-  // Convert back to SVG format
-  const result: { x: number; y: number }[][] = [];
-  for (let i = 0; i < offsetted.size(); i++) {
-    const path = offsetted.get(i);
-    result.push(clipperToSvgPath(path, scale));
-  }
+  const offsetted = clipper.offsetToPaths({
+    delta: offsetDistance * CLIPPER_SCALE,
+    miterLimit,
+    arcTolerance: ARC_TOLERANCE * CLIPPER_SCALE,
+    offsetInputs: [{
+      data: paths.map(points => svgToClipperPath(points)),
+      joinType: joinTypeMap[joinType],
+      endType: EndType.ClosedPolygon
+    }]
+  });
+
+  return (offsetted || []).map(path => clipperToSvgPath(path));
+}
+
+/**
+ * Morphological opening: remove the parts of a region narrower than
+ * `width` by offsetting it inward and back out
+ */
+export async function openPaths(
+  paths: { x: number; y: number }[][],
+  width: number,
+  joinType: 'miter' | 'round' | 'square' = 'round',
+  miterLimit: number = DEFAULT_MITER_LIMIT
+): Promise<{ x: number; y: number }[][]> {
+  const shrunk = await offsetPaths(paths, -width / 2, joinType, miterLimit);
+  return shrunk.length > 0 ? offsetPaths(shrunk, width / 2, joinType, miterLimit) : [];
+}
 
-  // Cleanup
-  co.delete();
-  offsetted.delete();
+/**
+ * Morphological closing: fill the gaps in a region narrower than `width`
+ * by offsetting it outward and back in
+ */
+export async function closePaths(
+  paths: { x: number; y: number }[][],
+  width: number,
+  joinType: 'miter' | 'round' | 'square' = 'round',
+  miterLimit: number = DEFAULT_MITER_LIMIT
+): Promise<{ x: number; y: number }[][]> {
+  const grown = await offsetPaths(paths, width / 2, joinType, miterLimit);
+  return offsetPaths(grown, -width / 2, joinType, miterLimit);
+}
 
-  return result;
+/**
+ * Expand an open polyline into the outline of a stroke of the given width
+ */
+export async function offsetOpenPath(
+  points: { x: number; y: number }[],
+  width: number,
+  joinType: 'miter' | 'round' | 'square' = 'round',
+  endType: 'round' | 'butt' | 'square' = 'round'
+): Promise<{ x: number; y: number }[][]> {
+  const clipper = await initClipper();
+
+  const endTypeMap = {
+    round: EndType.OpenRound,
+    butt: EndType.OpenButt,
+    square: EndType.OpenSquare
+  };
+
+  const offsetted = clipper.offsetToPaths({
+    delta: (width / 2) * CLIPPER_SCALE,
+    miterLimit: DEFAULT_MITER_LIMIT,
+    arcTolerance: ARC_TOLERANCE * CLIPPER_SCALE,
+    offsetInputs: [{
+      data: svgToClipperPath(points),
+      joinType: joinTypeMap[joinType],
+      endType: endTypeMap[endType]
+    }]
+  });
+
+  return (offsetted || []).map(path => clipperToSvgPath(path));
 }
 
 /**
@@ -89,37 +188,14 @@ export async function unionPaths(
   pathsArray: { x: number; y: number }[][]
 ): Promise<{ x: number; y: number }[][]> {
   const clipper = await initClipper();
-  const scale = 1000;
 
-  const clipperPaths = new clipper.Paths();
-  pathsArray.forEach(points => {
-    clipperPaths.push(svgToClipperPath(points, scale));
+  const solution = clipper.clipToPaths({
+    clipType: ClipType.Union,
+    subjectInputs: [{ data: pathsArray.map(points => svgToClipperPath(points)), closed: true }],
+    subjectFillType: PolyFillType.NonZero
   });
 
-  const solution = new clipper.Paths();
-  const c = new clipper.Clipper();
-
-  c.addPaths(clipperPaths, clipper.PolyType.Subject, true);
-  c.execute(
-    clipper.ClipType.Union,
-    solution,
-    clipper.PolyFillType.NonZero,
-    clipper.PolyFillType.NonZero
-  );
-
-  // Convert result
-  const result: { x: number; y: number }[][] = [];
-  for (let i = 0; i < solution.size(); i++) {
-    const path = solution.get(i);
-    result.push(clipperToSvgPath(path, scale));
-  }
-
-  // Cleanup
-  c.delete();
-  clipperPaths.delete();
-  solution.delete();
-
-  return result;
+  return solution.map(path => clipperToSvgPath(path));
 }
 
 /**
@@ -130,45 +206,16 @@ export async function differencePaths(
   clipPaths: { x: number; y: number }[][]
 ): Promise<{ x: number; y: number }[][]> {
   const clipper = await initClipper();
-  const scale = 1000;
-
-  const clipperSubject = new clipper.Paths();
-  subjectPaths.forEach(points => {
-    clipperSubject.push(svgToClipperPath(points, scale));
-  });
 
-  const clipperClip = new clipper.Paths();
-  clipPaths.forEach(points => {
-    clipperClip.push(svgToClipperPath(points, scale));
+  const solution = clipper.clipToPaths({
+    clipType: ClipType.Difference,
+    subjectInputs: [{ data: subjectPaths.map(points => svgToClipperPath(points)), closed: true }],
+    clipInputs: [{ data: clipPaths.map(points => svgToClipperPath(points)) }],
+    subjectFillType: PolyFillType.NonZero,
+    clipFillType: PolyFillType.NonZero
   });
 
-  const solution = new clipper.Paths();
-  const c = new clipper.Clipper();
-
-  c.addPaths(clipperSubject, clipper.PolyType.Subject, true);
-  c.addPaths(clipperClip, clipper.PolyType.Clip, true);
-
-  c.execute(
-    clipper.ClipType.Difference,
-    solution,
-    clipper.PolyFillType.NonZero,
-    clipper.PolyFillType.NonZero
-  );
-
-  // Convert result
-  const result: { x: number; y: number }[][] = [];
-  for (let i = 0; i < solution.size(); i++) {
-    const path = solution.get(i);
-    result.push(clipperToSvgPath(path, scale));
-  }
-
-  // Cleanup
-  c.delete();
-  clipperSubject.delete();
-  clipperClip.delete();
-  solution.delete();
-
-  return result;
+  return solution.map(path => clipperToSvgPath(path));
 }
 
 /**
@@ -179,45 +226,56 @@ export async function intersectPaths(
   pathsB: { x: number; y: number }[][]
 ): Promise<{ x: number; y: number }[][]> {
   const clipper = await initClipper();
-  const scale = 1000;
 
-  const clipperA = new clipper.Paths();
-  pathsA.forEach(points => {
-    clipperA.push(svgToClipperPath(points, scale));
+  const solution = clipper.clipToPaths({
+    clipType: ClipType.Intersection,
+    subjectInputs: [{ data: pathsA.map(points => svgToClipperPath(points)), closed: true }],
+    clipInputs: [{ data: pathsB.map(points => svgToClipperPath(points)) }],
+    subjectFillType: PolyFillType.NonZero,
+    clipFillType: PolyFillType.NonZero
   });
 
-  const clipperB = new clipper.Paths();
-  pathsB.forEach(points => {
-    clipperB.push(svgToClipperPath(points, scale));
-  });
+  return solution.map(path => clipperToSvgPath(path));
+}
 
-  const solution = new clipper.Paths();
-  const c = new clipper.Clipper();
+/**
+ * Boolean exclusive or: areas covered by exactly one of the path sets
+ */
+export async function xorPaths(
+  pathsA: { x: number; y: number }[][],
+  pathsB: { x: number; y: number }[][]
+): Promise<{ x: number; y: number }[][]> {
+  const clipper = await initClipper();
 
-  c.addPaths(clipperA, clipper.PolyType.Subject, true);
-  c.addPaths(clipperB, clipper.PolyType.Clip, true);
+  const solution = clipper.clipToPaths({
+    clipType: ClipType.Xor,
+    subjectInputs: [{ data: pathsA.map(points => svgToClipperPath(points)), closed: true }],
+    clipInputs: [{ data: pathsB.map(points => svgToClipperPath(points)) }],
+    subjectFillType: PolyFillType.NonZero,
+    clipFillType: PolyFillType.NonZero
+  });
 
-  c.execute(
-    clipper.ClipType.Intersection,
-    solution,
-    clipper.PolyFillType.NonZero,
-    clipper.PolyFillType.NonZero
-  );
+  return solution.map(path => clipperToSvgPath(path));
+}
 
-  // Convert result
-  const result: { x: number; y: number }[][] = [];
-  for (let i = 0; i < solution.size(); i++) {
-    const path = solution.get(i);
-    result.push(clipperToSvgPath(path, scale));
-  }
+/**
+ * Clip open polylines to the inside of closed paths
+ */
+export async function clipOpenPaths(
+  lines: { x: number; y: number }[][],
+  clipPaths: { x: number; y: number }[][]
+): Promise<{ x: number; y: number }[][]> {
+  const clipper = await initClipper();
 
-  // Cleanup
-  c.delete();
-  clipperA.delete();
-  clipperB.delete();
-  solution.delete();
+  const tree = clipper.clipToPolyTree({
+    clipType: ClipType.Intersection,
+    subjectInputs: [{ data: lines.map(points => svgToClipperPath(points)), closed: false }],
+    clipInputs: [{ data: clipPaths.map(points => svgToClipperPath(points)) }],
+    subjectFillType: PolyFillType.NonZero,
+    clipFillType: PolyFillType.NonZero
+  });
 
-  return result;
+  return clipper.openPathsFromPolyTree(tree).map(path => clipperToSvgPath(path as Path));
 }
 
 /**
@@ -228,32 +286,107 @@ export async function simplifyPath(
   fillType: 'evenodd' | 'nonzero' | 'positive' | 'negative' = 'nonzero'
 ): Promise<{ x: number; y: number }[][]> {
   const clipper = await initClipper();
-  const scale = 1000;
-
-  const clipperPath = svgToClipperPath(points, scale);
-  const paths = new clipper.Paths();
-  paths.push(clipperPath);
 
   const fillTypeMap = {
-    evenodd: clipper.PolyFillType.EvenOdd,
-    nonzero: clipper.PolyFillType.NonZero,
-    positive: clipper.PolyFillType.Positive,
-    negative: clipper.PolyFillType.Negative
+    evenodd: PolyFillType.EvenOdd,
+    nonzero: PolyFillType.NonZero,
+    positive: PolyFillType.Positive,
+    negative: PolyFillType.Negative
   };
 
-  const simplified = clipper.simplifyPaths(paths, fillTypeMap[fillType]);
+  const simplified = clipper.simplifyPolygon(svgToClipperPath(points), fillTypeMap[fillType]);
 
-  const result: { x: number; y: number }[][] = [];
-  for (let i = 0; i < simplified.size(); i++) {
-    const path = simplified.get(i);
-    result.push(clipperToSvgPath(path, scale));
+  return simplified.map(path => clipperToSvgPath(path));
+}
+
+/**
+ * Remove collinear and near-duplicate points from a path
+ */
+export async function cleanPath(
+  points: { x: number; y: number }[],
+  distance: number = CLEAN_DISTANCE
+): Promise<{ x: number; y: number }[]> {
+  const clipper = await initClipper();
+  return clipperToSvgPath(clipper.cleanPolygon(svgToClipperPath(points), distance * CLIPPER_SCALE));
+}
+
+/**
+ * Signed area of a closed path (positive = counter-clockwise in a Y-up frame)
+ */
+export function pathArea(points: { x: number; y: number }[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    area += p.x * q.y - q.x * p.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Area-weighted centroid of a closed path
+ */
+export function pathCentroid(points: { x: number; y: number }[]): { x: number; y: number } {
+  let cx = 0;
+  let cy = 0;
+  let area = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    const q = points[(i + 1) % points.length];
+    const cross = p.x * q.y - q.x * p.y;
+    area += cross;
+    cx += (p.x + q.x) * cross;
+    cy += (p.y + q.y) * cross;
   }
 
-  // Cleanup
-  paths.delete();
-  simplified.delete();
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate path: fall back to the vertex average
+    const n = Math.max(1, points.length);
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / n,
+      y: points.reduce((sum, p) => sum + p.y, 0) / n,
+    };
+  }
+
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/**
+ * Even-odd point in polygon test
+ */
+export function isPointInPath(
+  point: { x: number; y: number },
+  points: { x: number; y: number }[]
+): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Pick the path enclosing the largest area
+ */
+export function largestPath(paths: { x: number; y: number }[][]): { x: number; y: number }[] | null {
+  let best: { x: number; y: number }[] | null = null;
+  let bestArea = 0;
+
+  for (const path of paths) {
+    const area = Math.abs(pathArea(path));
+    if (area > bestArea) {
+      best = path;
+      bestArea = area;
+    }
+  }
 
-  return result;
+  return best;
 }
 
 /**
@@ -262,19 +395,20 @@ export async function simplifyPath(
  */
 export async function createCutterWalls(
   points: { x: number; y: number }[],
-  wallThickness: number
+  wallThickness: number,
+  miterLimit: number = DEFAULT_MITER_LIMIT
 ): Promise<{
   outer: { x: number; y: number }[];
   inner: { x: number; y: number }[];
 }> {
   // Create outer wall (offset outward by half thickness)
-  const outerPaths = await offsetPath(points, wallThickness / 2, 'round');
+  const outerPaths = await offsetPath(points, wallThickness / 2, 'miter', miterLimit);
 
   // Create inner wall (offset inward by half thickness)
-  const innerPaths = await offsetPath(points, -wallThickness / 2, 'round');
+  const innerPaths = await offsetPath(points, -wallThickness / 2, 'miter', miterLimit);
 
   return {
-    outer: outerPaths[0] || points,
-    inner: innerPaths[0] || points
+    outer: largestPath(outerPaths) || points,
+    inner: largestPath(innerPaths) || points
   };
 }
@@ -0,0 +1,824 @@
+import type { PathPoint } from './svgPathExtractor';
+
+/**
+ * Settings of a Potrace trace
+ */
+export interface PotraceOptions {
+  turdSize: number; // px², smaller shapes and holes are dropped
+  alphaMax: number; // corner threshold: 0 makes every vertex a corner, 4/3 none
+  optTolerance: number; // px a joined curve may stray from the curves it replaces
+}
+
+/**
+ * One segment of a traced outline. A corner runs straight to `c[1]` and on
+ * to `c[2]`; a curve is a cubic Bézier with control points `c[0]` and `c[1]`
+ * ending at `c[2]`.
+ */
+export interface PotraceSegment {
+  type: 'corner' | 'curve';
+  c: [PathPoint, PathPoint, PathPoint];
+}
+
+/**
+ * A closed traced outline, in pixel coordinates with y pointing down
+ */
+export interface PotraceCurve {
+  segments: PotraceSegment[];
+  hole: boolean;
+}
+
+/**
+ * Largest possible alphaMax, where no vertex becomes a corner
+ */
+export const MAX_ALPHA = 4 / 3;
+
+/**
+ * Decimal places kept for coordinates written into the SVG
+ */
+const COORDINATE_PRECISION = 2;
+
+/**
+ * A path along pixel edges, with the data each stage of the trace adds
+ */
+interface BitmapPath {
+  points: PathPoint[];
+  area: number;
+  hole: boolean;
+  maxX: number;
+  sums: { x: number; y: number; xy: number; x2: number; y2: number }[];
+  lon: number[];
+  polygon: number[];
+}
+
+/**
+ * The curve of a path while it is being smoothed and optimized
+ */
+interface WorkCurve {
+  tag: ('corner' | 'curve')[];
+  c: PathPoint[]; // three points per segment
+  vertex: PathPoint[];
+  alpha: number[];
+}
+
+/**
+ * A 3×3 quadratic form, row by row
+ */
+type Quad = number[];
+
+function mod(a: number, n: number): number {
+  return a >= n ? a % n : a >= 0 ? a : n - 1 - ((-1 - a) % n);
+}
+
+function sign(value: number): number {
+  return value > 0 ? 1 : value < 0 ? -1 : 0;
+}
+
+function xprod(p1: PathPoint, p2: PathPoint): number {
+  return p1.x * p2.y - p1.y * p2.x;
+}
+
+/**
+ * Whether b lies in the cyclic range a..c, with c excluded
+ */
+function cyclic(a: number, b: number, c: number): boolean {
+  return a <= c ? a <= b && b < c : a <= b || b < c;
+}
+
+function quadform(q: Quad, w: PathPoint): number {
+  const v = [w.x, w.y, 1];
+  let sum = 0;
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) sum += v[i] * q[i * 3 + j] * v[j];
+  }
+  return sum;
+}
+
+function interval(lambda: number, a: PathPoint, b: PathPoint): PathPoint {
+  return { x: a.x + lambda * (b.x - a.x), y: a.y + lambda * (b.y - a.y) };
+}
+
+/**
+ * Denominator of the distance from a segment to its middle vertex
+ */
+function ddenom(p0: PathPoint, p2: PathPoint): number {
+  const rx = -sign(p2.y - p0.y);
+  const ry = sign(p2.x - p0.x);
+  return ry * (p2.x - p0.x) - rx * (p2.y - p0.y);
+}
+
+/**
+ * Twice the signed area of the triangle p0, p1, p2
+ */
+function dpara(p0: PathPoint, p1: PathPoint, p2: PathPoint): number {
+  return (p1.x - p0.x) * (p2.y - p0.y) - (p2.x - p0.x) * (p1.y - p0.y);
+}
+
+function cprod(p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint): number {
+  return (p1.x - p0.x) * (p3.y - p2.y) - (p3.x - p2.x) * (p1.y - p0.y);
+}
+
+function iprod(p0: PathPoint, p1: PathPoint, p2: PathPoint): number {
+  return (p1.x - p0.x) * (p2.x - p0.x) + (p1.y - p0.y) * (p2.y - p0.y);
+}
+
+function iprod1(p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint): number {
+  return (p1.x - p0.x) * (p3.x - p2.x) + (p1.y - p0.y) * (p3.y - p2.y);
+}
+
+function ddist(p: PathPoint, q: PathPoint): number {
+  return Math.hypot(p.x - q.x, p.y - q.y);
+}
+
+function bezier(t: number, p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint): PathPoint {
+  const s = 1 - t;
+  return {
+    x: s * s * s * p0.x + 3 * s * s * t * p1.x + 3 * t * t * s * p2.x + t * t * t * p3.x,
+    y: s * s * s * p0.y + 3 * s * s * t * p1.y + 3 * t * t * s * p2.y + t * t * t * p3.y,
+  };
+}
+
+/**
+ * Parameter where the Bézier p0..p3 runs parallel to q0..q1, or -1
+ */
+function tangent(p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint, q0: PathPoint, q1: PathPoint): number {
+  const A = cprod(p0, p1, q0, q1);
+  const B = cprod(p1, p2, q0, q1);
+  const C = cprod(p2, p3, q0, q1);
+  const a = A - 2 * B + C;
+  const b = -2 * A + 2 * B;
+  const d = b * b - 4 * a * A;
+  if (a === 0 || d < 0) return -1;
+
+  const s = Math.sqrt(d);
+  const r1 = (-b + s) / (2 * a);
+  const r2 = (-b - s) / (2 * a);
+  if (r1 >= 0 && r1 <= 1) return r1;
+  if (r2 >= 0 && r2 <= 1) return r2;
+  return -1;
+}
+
+/**
+ * Split the bitmap into closed paths along pixel edges. Each path found is
+ * flipped out of a working copy, so holes turn up as paths of their own.
+ * Where pixels touch at a corner only, the path turns towards the minority
+ * colour around it.
+ */
+function decompose(mask: Uint8Array, width: number, height: number, turdSize: number): BitmapPath[] {
+  const bits = mask.slice();
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && bits[y * width + x] === 1;
+  const original = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  const majority = (x: number, y: number): boolean => {
+    for (let i = 2; i < 5; i++) {
+      let count = 0;
+      for (let a = -i + 1; a <= i - 1; a++) {
+        count += at(x + a, y + i - 1) ? 1 : -1;
+        count += at(x + i - 1, y + a - 1) ? 1 : -1;
+        count += at(x + a - 1, y - i) ? 1 : -1;
+        count += at(x - i, y + a) ? 1 : -1;
+      }
+      if (count > 0) return true;
+      if (count < 0) return false;
+    }
+    return false;
+  };
+
+  const findPath = (startX: number, startY: number): BitmapPath => {
+    const path: BitmapPath = {
+      points: [], area: 0, hole: !original(startX, startY), maxX: startX, sums: [], lon: [], polygon: [],
+    };
+    let x = startX;
+    let y = startY;
+    let dirx = 0;
+    let diry = 1;
+
+    for (;;) {
+      path.points.push({ x, y });
+      path.maxX = Math.max(path.maxX, x);
+      x += dirx;
+      y += diry;
+      path.area -= x * diry;
+      if (x === startX && y === startY) break;
+
+      const left = at(x + (dirx + diry - 1) / 2, y + (diry - dirx - 1) / 2);
+      const right = at(x + (dirx - diry - 1) / 2, y + (diry + dirx - 1) / 2);
+      let tmp: number;
+      if (right && !left) {
+        if (!majority(x, y)) {
+          tmp = dirx; dirx = -diry; diry = tmp;
+        } else {
+          tmp = dirx; dirx = diry; diry = -tmp;
+        }
+      } else if (right) {
+        tmp = dirx; dirx = -diry; diry = tmp;
+      } else if (!left) {
+        tmp = dirx; dirx = diry; diry = -tmp;
+      }
+    }
+
+    return path;
+  };
+
+  // Flip every pixel inside the path
+  const xorPath = (path: BitmapPath) => {
+    let y1 = path.points[0].y;
+    for (let i = 1; i < path.points.length; i++) {
+      const { x, y } = path.points[i];
+      if (y !== y1) {
+        const minY = Math.min(y1, y);
+        for (let j = x; j < path.maxX; j++) bits[minY * width + j] ^= 1;
+        y1 = y;
+      }
+    }
+  };
+
+  const paths: BitmapPath[] = [];
+  for (let i = bits.indexOf(1); i >= 0; i = bits.indexOf(1, i)) {
+    const path = findPath(i % width, Math.floor(i / width));
+    xorPath(path);
+    if (Math.abs(path.area) > turdSize) paths.push(path);
+  }
+
+  return paths;
+}
+
+/**
+ * Prefix sums of the path points, relative to the first, for fast line fits
+ */
+function calcSums(path: BitmapPath) {
+  const { x: x0, y: y0 } = path.points[0];
+  const sums = [{ x: 0, y: 0, xy: 0, x2: 0, y2: 0 }];
+  path.points.forEach((p, i) => {
+    const x = p.x - x0;
+    const y = p.y - y0;
+    const s = sums[i];
+    sums.push({ x: s.x + x, y: s.y + y, xy: s.xy + x * y, x2: s.x2 + x * x, y2: s.y2 + y * y });
+  });
+  path.sums = sums;
+}
+
+/**
+ * For each point, the furthest point a straight line from it can reach
+ * while staying within half a pixel of the path
+ */
+function calcLon(path: BitmapPath) {
+  const pt = path.points;
+  const n = pt.length;
+  const pivk = new Array<number>(n);
+  const nc = new Array<number>(n);
+  const ct = [0, 0, 0, 0];
+  path.lon = new Array<number>(n);
+
+  let k = 0;
+  for (let i = n - 1; i >= 0; i--) {
+    if (pt[i].x !== pt[k].x && pt[i].y !== pt[k].y) k = i + 1;
+    nc[i] = k;
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    ct.fill(0);
+    ct[(3 + 3 * (pt[mod(i + 1, n)].x - pt[i].x) + (pt[mod(i + 1, n)].y - pt[i].y)) / 2]++;
+
+    const constraint = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+    k = nc[i];
+    let k1 = i;
+    let found = false;
+
+    for (;;) {
+      ct[(3 + 3 * sign(pt[k].x - pt[k1].x) + sign(pt[k].y - pt[k1].y)) / 2]++;
+      if (ct[0] && ct[1] && ct[2] && ct[3]) {
+        pivk[i] = k1;
+        found = true;
+        break;
+      }
+
+      const cur = { x: pt[k].x - pt[i].x, y: pt[k].y - pt[i].y };
+      if (xprod(constraint[0], cur) < 0 || xprod(constraint[1], cur) > 0) break;
+
+      if (Math.abs(cur.x) > 1 || Math.abs(cur.y) > 1) {
+        let off = {
+          x: cur.x + (cur.y >= 0 && (cur.y > 0 || cur.x < 0) ? 1 : -1),
+          y: cur.y + (cur.x <= 0 && (cur.x < 0 || cur.y < 0) ? 1 : -1),
+        };
+        if (xprod(constraint[0], off) >= 0) constraint[0] = off;
+
+        off = {
+          x: cur.x + (cur.y <= 0 && (cur.y < 0 || cur.x < 0) ? 1 : -1),
+          y: cur.y + (cur.x >= 0 && (cur.x > 0 || cur.y < 0) ? 1 : -1),
+        };
+        if (xprod(constraint[1], off) <= 0) constraint[1] = off;
+      }
+
+      k1 = k;
+      k = nc[k1];
+      if (!cyclic(k, i, k1)) break;
+    }
+
+    if (!found) {
+      const dk = { x: sign(pt[k].x - pt[k1].x), y: sign(pt[k].y - pt[k1].y) };
+      const cur = { x: pt[k1].x - pt[i].x, y: pt[k1].y - pt[i].y };
+      const a = xprod(constraint[0], cur);
+      const b = xprod(constraint[0], dk);
+      const c = xprod(constraint[1], cur);
+      const d = xprod(constraint[1], dk);
+      let j = 10000000;
+      if (b < 0) j = Math.floor(a / -b);
+      if (d > 0) j = Math.min(j, Math.floor(-c / d));
+      pivk[i] = mod(k1 + j, n);
+    }
+  }
+
+  let j = pivk[n - 1];
+  path.lon[n - 1] = j;
+  for (let i = n - 2; i >= 0; i--) {
+    if (cyclic(i + 1, pivk[i], j)) j = pivk[i];
+    path.lon[i] = j;
+  }
+  for (let i = n - 1; cyclic(mod(i + 1, n), j, path.lon[i]); i--) {
+    path.lon[i] = j;
+  }
+}
+
+/**
+ * How far the points between i and j stray from the line through them
+ */
+function penalty3(path: BitmapPath, i: number, j: number): number {
+  const { points: pt, sums } = path;
+  const n = pt.length;
+  let wrap = 0;
+  if (j >= n) {
+    j -= n;
+    wrap = 1;
+  }
+
+  const x = sums[j + 1].x - sums[i].x + wrap * sums[n].x;
+  const y = sums[j + 1].y - sums[i].y + wrap * sums[n].y;
+  const x2 = sums[j + 1].x2 - sums[i].x2 + wrap * sums[n].x2;
+  const xy = sums[j + 1].xy - sums[i].xy + wrap * sums[n].xy;
+  const y2 = sums[j + 1].y2 - sums[i].y2 + wrap * sums[n].y2;
+  const k = j + 1 - i + wrap * n;
+
+  const px = (pt[i].x + pt[j].x) / 2 - pt[0].x;
+  const py = (pt[i].y + pt[j].y) / 2 - pt[0].y;
+  const ey = pt[j].x - pt[i].x;
+  const ex = -(pt[j].y - pt[i].y);
+
+  const a = (x2 - 2 * x * px) / k + px * px;
+  const b = (xy - x * py - y * px) / k + px * py;
+  const c = (y2 - 2 * y * py) / k + py * py;
+
+  return Math.sqrt(Math.max(0, ex * ex * a + 2 * ex * ey * b + ey * ey * c));
+}
+
+/**
+ * The polygon with the fewest vertices whose edges all stay within the
+ * path, and of those the one closest to it
+ */
+function bestPolygon(path: BitmapPath) {
+  const n = path.points.length;
+  const pen = new Array<number>(n + 1);
+  const prev = new Array<number>(n + 1);
+  const clip0 = new Array<number>(n);
+  const clip1 = new Array<number>(n + 1);
+  const seg0 = new Array<number>(n + 1);
+  const seg1 = new Array<number>(n + 1);
+
+  for (let i = 0; i < n; i++) {
+    let c = mod(path.lon[mod(i - 1, n)] - 1, n);
+    if (c === i) c = mod(i + 1, n);
+    clip0[i] = c < i ? n : c;
+  }
+
+  let j = 1;
+  for (let i = 0; i < n; i++) {
+    while (j <= clip0[i]) {
+      clip1[j] = i;
+      j++;
+    }
+  }
+
+  let i = 0;
+  for (j = 0; i < n; j++) {
+    seg0[j] = i;
+    i = clip0[i];
+  }
+  seg0[j] = n;
+  const m = j;
+
+  i = n;
+  for (j = m; j > 0; j--) {
+    seg1[j] = i;
+    i = clip1[i];
+  }
+  seg1[0] = 0;
+
+  pen[0] = 0;
+  for (j = 1; j <= m; j++) {
+    for (i = seg1[j]; i <= seg0[j]; i++) {
+      let best = -1;
+      for (let k = seg0[j - 1]; k >= clip1[i]; k--) {
+        const penalty = penalty3(path, k, i) + pen[k];
+        if (best < 0 || penalty < best) {
+          prev[i] = k;
+          best = penalty;
+        }
+      }
+      pen[i] = best;
+    }
+  }
+
+  path.polygon = new Array<number>(m);
+  for (i = n, j = m - 1; i > 0; j--) {
+    i = prev[i];
+    path.polygon[j] = i;
+  }
+}
+
+/**
+ * Move each polygon vertex, within its pixel, to where the lines fitted to
+ * the path on either side of it meet
+ */
+function adjustVertices(path: BitmapPath): WorkCurve {
+  const { points: pt, polygon: po, sums } = path;
+  const m = po.length;
+  const n = pt.length;
+  const { x: x0, y: y0 } = pt[0];
+
+  // Centre and direction of the line fitted to the points from i to j
+  const pointSlope = (i: number, j: number): { center: PathPoint; dir: PathPoint } => {
+    let r = 0;
+    while (j >= n) { j -= n; r++; }
+    while (i >= n) { i -= n; r--; }
+    while (j < 0) { j += n; r--; }
+    while (i < 0) { i += n; r++; }
+
+    const x = sums[j + 1].x - sums[i].x + r * sums[n].x;
+    const y = sums[j + 1].y - sums[i].y + r * sums[n].y;
+    const x2 = sums[j + 1].x2 - sums[i].x2 + r * sums[n].x2;
+    const xy = sums[j + 1].xy - sums[i].xy + r * sums[n].xy;
+    const y2 = sums[j + 1].y2 - sums[i].y2 + r * sums[n].y2;
+    const k = j + 1 - i + r * n;
+
+    let a = (x2 - (x * x) / k) / k;
+    const b = (xy - (x * y) / k) / k;
+    let c = (y2 - (y * y) / k) / k;
+    const lambda2 = (a + c + Math.sqrt((a - c) * (a - c) + 4 * b * b)) / 2;
+    a -= lambda2;
+    c -= lambda2;
+
+    let dir = { x: 0, y: 0 };
+    if (Math.abs(a) >= Math.abs(c)) {
+      const l = Math.hypot(a, b);
+      if (l !== 0) dir = { x: -b / l, y: a / l };
+    } else {
+      const l = Math.hypot(c, b);
+      if (l !== 0) dir = { x: -c / l, y: b / l };
+    }
+
+    return { center: { x: x / k, y: y / k }, dir };
+  };
+
+  const quads: Quad[] = po.map((start, i) => {
+    const end = mod(po[mod(i + 1, m)] - start, n) + start;
+    const { center, dir } = pointSlope(start, end);
+    const d = dir.x * dir.x + dir.y * dir.y;
+    if (d === 0) return new Array(9).fill(0);
+
+    const v = [dir.y, -dir.x, 0];
+    v[2] = -v[1] * center.y - v[0] * center.x;
+    const q: Quad = [];
+    for (let l = 0; l < 3; l++) {
+      for (let k = 0; k < 3; k++) q.push((v[l] * v[k]) / d);
+    }
+    return q;
+  });
+
+  const curve: WorkCurve = { tag: [], c: [], vertex: [], alpha: [] };
+
+  for (let i = 0; i < m; i++) {
+    const s = { x: pt[po[i]].x - x0, y: pt[po[i]].y - y0 };
+    const previous = quads[mod(i - 1, m)];
+    const q = quads[i].map((value, k) => value + previous[k]);
+    const w = { x: 0, y: 0 };
+
+    for (;;) {
+      const det = q[0] * q[4] - q[1] * q[3];
+      if (det !== 0) {
+        w.x = (-q[2] * q[4] + q[5] * q[1]) / det;
+        w.y = (q[2] * q[3] - q[5] * q[0]) / det;
+        break;
+      }
+
+      // The lines are parallel: add a line through the vertex across them
+      const v = q[0] > q[4] ? [-q[1], q[0], 0] : q[4] ? [-q[4], q[3], 0] : [1, 0, 0];
+      const d = v[0] * v[0] + v[1] * v[1];
+      v[2] = -v[1] * s.y - v[0] * s.x;
+      for (let l = 0; l < 3; l++) {
+        for (let k = 0; k < 3; k++) q[l * 3 + k] += (v[l] * v[k]) / d;
+      }
+    }
+
+    if (Math.abs(w.x - s.x) <= 0.5 && Math.abs(w.y - s.y) <= 0.5) {
+      curve.vertex[i] = { x: w.x + x0, y: w.y + y0 };
+      continue;
+    }
+
+    // The intersection is outside the pixel: take the best point on its border
+    let min = quadform(q, s);
+    let best = { x: s.x, y: s.y };
+    const consider = (candidate: PathPoint) => {
+      const value = quadform(q, candidate);
+      if (value < min) {
+        min = value;
+        best = candidate;
+      }
+    };
+
+    if (q[0] !== 0) {
+      for (let z = 0; z < 2; z++) {
+        const y = s.y - 0.5 + z;
+        const x = -(q[1] * y + q[2]) / q[0];
+        if (Math.abs(x - s.x) <= 0.5) consider({ x, y });
+      }
+    }
+    if (q[4] !== 0) {
+      for (let z = 0; z < 2; z++) {
+        const x = s.x - 0.5 + z;
+        const y = -(q[3] * x + q[5]) / q[4];
+        if (Math.abs(y - s.y) <= 0.5) consider({ x, y });
+      }
+    }
+    for (let l = 0; l < 2; l++) {
+      for (let k = 0; k < 2; k++) consider({ x: s.x - 0.5 + l, y: s.y - 0.5 + k });
+    }
+
+    curve.vertex[i] = { x: best.x + x0, y: best.y + y0 };
+  }
+
+  return curve;
+}
+
+/**
+ * Decide for each vertex whether it is a corner, and turn the others into
+ * Bézier curves through the midpoints of the polygon edges
+ */
+function smooth(curve: WorkCurve, alphaMax: number) {
+  const { vertex } = curve;
+  const m = vertex.length;
+
+  for (let i = 0; i < m; i++) {
+    const j = mod(i + 1, m);
+    const k = mod(i + 2, m);
+    const p4 = interval(0.5, vertex[k], vertex[j]);
+
+    let alpha = 4 / 3;
+    const denom = ddenom(vertex[i], vertex[k]);
+    if (denom !== 0) {
+      const dd = Math.abs(dpara(vertex[i], vertex[j], vertex[k]) / denom);
+      alpha = (dd > 1 ? 1 - 1 / dd : 0) / 0.75;
+    }
+
+    if (alpha >= alphaMax) {
+      curve.tag[j] = 'corner';
+      curve.c[3 * j + 1] = vertex[j];
+      curve.c[3 * j + 2] = p4;
+    } else {
+      alpha = Math.min(1, Math.max(0.55, alpha));
+      curve.tag[j] = 'curve';
+      curve.c[3 * j] = interval(0.5 + 0.5 * alpha, vertex[i], vertex[j]);
+      curve.c[3 * j + 1] = interval(0.5 + 0.5 * alpha, vertex[k], vertex[j]);
+      curve.c[3 * j + 2] = p4;
+    }
+    curve.alpha[j] = alpha;
+  }
+}
+
+/**
+ * A candidate curve replacing a run of segments
+ */
+interface Opti {
+  pen: number;
+  c: [PathPoint, PathPoint];
+  t: number;
+  s: number;
+  alpha: number;
+}
+
+/**
+ * Try to replace the segments from i to j with one curve. Returns null
+ * when they turn different ways or the curve strays too far.
+ */
+function optiPenalty(
+  curve: WorkCurve,
+  i: number,
+  j: number,
+  tolerance: number,
+  convc: number[],
+  areac: number[]
+): Opti | null {
+  const { vertex, c } = curve;
+  const m = vertex.length;
+  if (i === j) return null;
+
+  const i1 = mod(i + 1, m);
+  let k1 = mod(i + 1, m);
+  const conv = convc[k1];
+  if (conv === 0) return null;
+
+  const d0 = ddist(vertex[i], vertex[i1]);
+  for (let k = k1; k !== j; k = k1) {
+    k1 = mod(k + 1, m);
+    const k2 = mod(k + 2, m);
+    if (convc[k1] !== conv) return null;
+    if (sign(cprod(vertex[i], vertex[i1], vertex[k1], vertex[k2])) !== conv) return null;
+    if (iprod1(vertex[i], vertex[i1], vertex[k1], vertex[k2]) < d0 * ddist(vertex[k1], vertex[k2]) * -0.999847695156) {
+      return null;
+    }
+  }
+
+  const p0 = c[mod(i, m) * 3 + 2];
+  let p1 = vertex[mod(i + 1, m)];
+  let p2 = vertex[mod(j, m)];
+  const p3 = c[mod(j, m) * 3 + 2];
+
+  let area = areac[j] - areac[i];
+  area -= dpara(vertex[0], c[i * 3 + 2], c[j * 3 + 2]) / 2;
+  if (i >= j) area += areac[m];
+
+  const A1 = dpara(p0, p1, p2);
+  const A2 = dpara(p0, p1, p3);
+  const A3 = dpara(p0, p2, p3);
+  const A4 = A1 + A3 - A2;
+  if (A2 === A1) return null;
+
+  let t = A3 / (A3 - A4);
+  const s = A2 / (A2 - A1);
+  const A = (A2 * t) / 2;
+  if (A === 0) return null;
+
+  const R = area / A;
+  const alpha = 2 - Math.sqrt(4 - R / 0.3);
+  const result: Opti = {
+    pen: 0,
+    c: [interval(t * alpha, p0, p1), interval(s * alpha, p3, p2)],
+    t,
+    s,
+    alpha,
+  };
+  [p1, p2] = result.c;
+
+  // The curve has to follow the polygon edges
+  for (let k = mod(i + 1, m); k !== j; k = k1) {
+    k1 = mod(k + 1, m);
+    t = tangent(p0, p1, p2, p3, vertex[k], vertex[k1]);
+    if (t < -0.5) return null;
+    const pt = bezier(t, p0, p1, p2, p3);
+    const d = ddist(vertex[k], vertex[k1]);
+    if (d === 0) return null;
+    const d1 = dpara(vertex[k], vertex[k1], pt) / d;
+    if (Math.abs(d1) > tolerance) return null;
+    if (iprod(vertex[k], vertex[k1], pt) < 0 || iprod(vertex[k1], vertex[k], pt) < 0) return null;
+    result.pen += d1 * d1;
+  }
+
+  // And stay close to the curves it replaces
+  for (let k = i; k !== j; k = k1) {
+    k1 = mod(k + 1, m);
+    t = tangent(p0, p1, p2, p3, c[k * 3 + 2], c[k1 * 3 + 2]);
+    if (t < -0.5) return null;
+    const pt = bezier(t, p0, p1, p2, p3);
+    const d = ddist(c[k * 3 + 2], c[k1 * 3 + 2]);
+    if (d === 0) return null;
+    let d1 = dpara(c[k * 3 + 2], c[k1 * 3 + 2], pt) / d;
+    let d2 = (dpara(c[k * 3 + 2], c[k1 * 3 + 2], vertex[k1]) / d) * 0.75 * curve.alpha[k1];
+    if (d2 < 0) {
+      d1 = -d1;
+      d2 = -d2;
+    }
+    if (d1 < d2 - tolerance) return null;
+    if (d1 < d2) result.pen += (d1 - d2) * (d1 - d2);
+  }
+
+  return result;
+}
+
+/**
+ * Join runs of curves turning the same way into single curves where that
+ * keeps within `tolerance`, with the fewest segments possible
+ */
+function optimizeCurve(curve: WorkCurve, tolerance: number): WorkCurve {
+  const { vertex, c } = curve;
+  const m = vertex.length;
+
+  const convc = vertex.map((v, i) =>
+    curve.tag[i] === 'curve' ? sign(dpara(vertex[mod(i - 1, m)], v, vertex[mod(i + 1, m)])) : 0
+  );
+
+  // Area under the curve up to each segment, for the area check
+  const areac = [0];
+  let area = 0;
+  for (let i = 0; i < m; i++) {
+    const i1 = mod(i + 1, m);
+    if (curve.tag[i1] === 'curve') {
+      const alpha = curve.alpha[i1];
+      area += (0.3 * alpha * (4 - alpha) * dpara(c[i * 3 + 2], vertex[i1], c[i1 * 3 + 2])) / 2;
+      area += dpara(vertex[0], c[i * 3 + 2], c[i1 * 3 + 2]) / 2;
+    }
+    areac.push(area);
+  }
+
+  const pt = [-1];
+  const pen = [0];
+  const len = [0];
+  const opt: (Opti | undefined)[] = [];
+
+  for (let j = 1; j <= m; j++) {
+    pt[j] = j - 1;
+    pen[j] = pen[j - 1];
+    len[j] = len[j - 1] + 1;
+
+    for (let i = j - 2; i >= 0; i--) {
+      const o = optiPenalty(curve, i, mod(j, m), tolerance, convc, areac);
+      if (!o) break;
+      if (len[j] > len[i] + 1 || (len[j] === len[i] + 1 && pen[j] > pen[i] + o.pen)) {
+        pt[j] = i;
+        pen[j] = pen[i] + o.pen;
+        len[j] = len[i] + 1;
+        opt[j] = o;
+      }
+    }
+  }
+
+  const om = len[m];
+  const result: WorkCurve = { tag: [], c: [], vertex: [], alpha: [] };
+  for (let i = om - 1, j = m; i >= 0; i--, j = pt[j]) {
+    const jm = mod(j, m);
+    const o = opt[j];
+    if (pt[j] === j - 1 || !o) {
+      result.tag[i] = curve.tag[jm];
+      result.c[i * 3] = c[jm * 3];
+      result.c[i * 3 + 1] = c[jm * 3 + 1];
+      result.c[i * 3 + 2] = c[jm * 3 + 2];
+      result.vertex[i] = vertex[jm];
+      result.alpha[i] = curve.alpha[jm];
+    } else {
+      result.tag[i] = 'curve';
+      result.c[i * 3] = o.c[0];
+      result.c[i * 3 + 1] = o.c[1];
+      result.c[i * 3 + 2] = c[jm * 3 + 2];
+      result.vertex[i] = interval(o.s, c[jm * 3 + 2], vertex[jm]);
+      result.alpha[i] = o.alpha;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Trace a bitmap into smooth outlines with the Potrace algorithm.
+ *
+ * The bitmap is split into paths along pixel edges, each path gets the
+ * polygon with the fewest straight edges that stays within half a pixel of
+ * it, and the polygon vertices are moved to where the fitted edges meet.
+ * Vertices that turn sharper than `alphaMax` allows stay corners; the rest
+ * become cubic Bézier curves, and runs of them are joined where that keeps
+ * within `optTolerance`.
+ */
+export function potrace(mask: Uint8Array, width: number, height: number, options: PotraceOptions): PotraceCurve[] {
+  return decompose(mask, width, height, options.turdSize).map(path => {
+    calcSums(path);
+    calcLon(path);
+    bestPolygon(path);
+
+    let curve = adjustVertices(path);
+    if (path.hole) curve.vertex.reverse();
+    smooth(curve, options.alphaMax);
+    if (options.optTolerance > 0) {
+      curve = optimizeCurve(curve, options.optTolerance);
+    }
+
+    return {
+      hole: path.hole,
+      segments: curve.tag.map((type, i) => ({
+        type,
+        c: [curve.c[i * 3] ?? curve.vertex[i], curve.c[i * 3 + 1], curve.c[i * 3 + 2]],
+      })),
+    };
+  });
+}
+
+/**
+ * Write traced outlines as SVG path data
+ */
+export function potraceToPathData(curves: PotraceCurve[]): string {
+  const round = (p: PathPoint) => `${+p.x.toFixed(COORDINATE_PRECISION)} ${+p.y.toFixed(COORDINATE_PRECISION)}`;
+
+  return curves.map(({ segments }) => {
+    const parts = [`M ${round(segments[segments.length - 1].c[2])}`];
+    for (const { type, c } of segments) {
+      parts.push(type === 'curve' ? `C ${round(c[0])} ${round(c[1])} ${round(c[2])}` : `L ${round(c[1])} L ${round(c[2])}`);
+    }
+    parts.push('Z');
+    return parts.join(' ');
+  }).join(' ');
+}
@@ -1,4 +1,11 @@
+import type { Mesh, Group } from 'three';
 import type { CookieCutterParams } from '../types/CookieCutter';
+import type { MaterialPreset } from './materialManager';
+import { planPrint, type PrinterProfile } from './advancedExporter';
+import { getMeshVolume } from './slicer';
+import { getDoughPreset, applyDoughPreset } from './doughPresets';
+import { getEdgeThickness } from './cookieCutterGenerator';
+import type { TaskOptions } from './taskControl';
 
 export interface OptimizationIssue {
   severity: 'error' | 'warning' | 'info';
@@ -6,6 +13,16 @@ export interface OptimizationIssue {
   message: string;
   suggestion: string;
   autoFix?: Partial<CookieCutterParams>;
+  region?: IssueRegion; // where on the model the issue is, for shape issues
+}
+
+/**
+ * Area of the model an issue applies to, in millimetres on the scene's X/Z
+ * plane (`y` is the scene's Z axis)
+ */
+export interface IssueRegion {
+  center: { x: number; y: number };
+  outline: { x: number; y: number }[];
 }
 
 export interface OptimizationReport {
@@ -15,7 +32,8 @@ export interface OptimizationReport {
 }
 
 /**
- * Analyze parameters and detect potential issues
+ * Analyze parameters and detect potential issues. Heights, edge and relief
+ * depths are judged against the dough the cutter is for.
  */
 export function analyzeParameters(params: CookieCutterParams): OptimizationReport {
   const issues: OptimizationIssue[] = [];
@@ -47,33 +65,92 @@ export function analyzeParameters(params: CookieCutterParams): OptimizationRepor
     });
   }
 
+  // Judge heights, edge and depths against the dough being cut
+  const dough = getDoughPreset(params.doughType);
+  const { settings, limits } = dough;
+
   // Check cutting height
-  if (params.cuttingHeight < 8) {
+  if (params.cuttingHeight < params.doughThickness + limits.minClearance) {
     issues.push({
       severity: 'warning',
       category: 'printability',
-      message: 'Cutting height is very short',
-      suggestion: 'Short cutters may not cut through thick dough effectively',
-      autoFix: { cuttingHeight: 12 }
+      message: `Cutting height is too short for ${dough.name.toLowerCase()}`,
+      suggestion: `Leave at least ${limits.minClearance}mm of wall above ${params.doughThickness}mm of dough so the cutter goes all the way through`,
+      autoFix: { cuttingHeight: Math.max(settings.cuttingHeight, Math.ceil(params.doughThickness + limits.minClearance)) }
     });
-  } else if (params.cuttingHeight > 20) {
+  } else if (params.cuttingHeight > limits.maxCuttingHeight) {
     issues.push({
       severity: 'info',
       category: 'efficiency',
-      message: 'Cutting height is quite tall',
+      message: `Cutting height is quite tall for ${dough.name.toLowerCase()}`,
       suggestion: 'Taller cutters use more material and take longer to print',
-      autoFix: { cuttingHeight: 15 }
+      autoFix: { cuttingHeight: settings.cuttingHeight }
+    });
+  }
+
+  // Check cutting edge as the wall is built: a shallow taper stops short of
+  // the requested edge
+  const edgeThickness = getEdgeThickness(params);
+  if (params.mode === 'cutter' && edgeThickness > limits.maxEdgeThickness + 1e-6) {
+    const targetEdge = Math.min(settings.edgeThickness, params.wallThickness);
+    const neededTaper = Math.ceil(
+      Math.atan((params.wallThickness - targetEdge) / params.cuttingHeight) * 180 / Math.PI
+    );
+    const taperTooShallow = params.edgeThickness <= limits.maxEdgeThickness;
+
+    issues.push({
+      severity: 'warning',
+      category: 'quality',
+      message: `Cutting edge is too blunt for ${dough.name.toLowerCase()}`,
+      suggestion: taperTooShallow
+        ? `A ${params.taperAngle}° taper over ${params.cuttingHeight}mm only thins the wall to ${edgeThickness.toFixed(2)}mm; edges over ${limits.maxEdgeThickness}mm squash or tear this dough`
+        : `Edges over ${limits.maxEdgeThickness}mm squash or tear this dough instead of cutting it`,
+      autoFix: {
+        edgeThickness: targetEdge,
+        taperAngle: Math.min(Math.max(params.taperAngle, neededTaper), limits.maxTaperAngle)
+      }
     });
   }
 
   // Check taper angle
-  if (params.taperAngle > 15) {
+  if (params.taperAngle > limits.maxTaperAngle) {
     issues.push({
       severity: 'warning',
       category: 'printability',
       message: 'Taper angle is too steep',
-      suggestion: 'Steep angles may cause overhangs that need supports',
-      autoFix: { taperAngle: 10 }
+      suggestion: `Angles over ${limits.maxTaperAngle}° distort ${dough.name.toLowerCase()} and may cause overhangs that need supports`,
+      autoFix: { taperAngle: settings.taperAngle }
+    });
+  } else if (params.mode === 'cutter' && params.taperAngle < limits.draftAngle) {
+    issues.push({
+      severity: 'info',
+      category: 'quality',
+      message: 'Little draft for releasing the dough',
+      suggestion: `${dough.name} releases more easily with at least ${limits.draftAngle}° of taper`,
+      autoFix: { taperAngle: settings.taperAngle }
+    });
+  }
+
+  // Check imprint depth
+  if ((params.detailMode !== 'none' || params.outlineMode === 'border') && params.imprintDepth > params.doughThickness / 2) {
+    issues.push({
+      severity: 'warning',
+      category: 'quality',
+      message: 'Imprint depth is more than half the dough thickness',
+      suggestion: 'Deep imprints weaken the cookie and may tear it when lifting the cutter',
+      autoFix: { imprintDepth: settings.imprintDepth }
+    });
+  }
+
+  // Check emboss depth
+  const [minRelief, maxRelief] = limits.reliefDepth;
+  if (params.enableEmbossing && (params.embossDepth < minRelief || params.embossDepth > maxRelief)) {
+    issues.push({
+      severity: 'warning',
+      category: 'quality',
+      message: params.embossDepth < minRelief ? 'Emboss depth is very shallow' : 'Emboss depth is very deep',
+      suggestion: `Reliefs of ${minRelief}-${maxRelief}mm read best in ${dough.name.toLowerCase()}`,
+      autoFix: { embossDepth: settings.embossDepth }
     });
   }
 
@@ -90,21 +167,21 @@ export function analyzeParameters(params: CookieCutterParams): OptimizationRepor
 
   // Check stamp-specific issues
   if (params.mode === 'stamp') {
-    if (params.stampDepth < 1.5) {
+    if (params.stampDepth < minRelief) {
       issues.push({
         severity: 'warning',
         category: 'quality',
         message: 'Stamp depth is very shallow',
-        suggestion: 'Shallow relief may not show well on cookies',
-        autoFix: { stampDepth: 2.5 }
+        suggestion: `Reliefs under ${minRelief}mm may not show well in ${dough.name.toLowerCase()}`,
+        autoFix: { stampDepth: settings.stampDepth }
       });
-    } else if (params.stampDepth > 4.0) {
+    } else if (params.stampDepth > maxRelief) {
       issues.push({
         severity: 'warning',
         category: 'printability',
         message: 'Stamp depth is very deep',
-        suggestion: 'Deep relief may be hard to remove from dough',
-        autoFix: { stampDepth: 3.0 }
+        suggestion: `Reliefs over ${maxRelief}mm may be hard to remove from ${dough.name.toLowerCase()}`,
+        autoFix: { stampDepth: settings.stampDepth }
       });
     }
   }
@@ -121,6 +198,13 @@ export function analyzeParameters(params: CookieCutterParams): OptimizationRepor
     });
   }
 
+  return summarizeIssues(issues);
+}
+
+/**
+ * Score a list of issues and decide whether the design can be printed
+ */
+export function summarizeIssues(issues: OptimizationIssue[]): OptimizationReport {
   // Calculate score (100 - 10 per error, -5 per warning, -2 per info)
   let score = 100;
   issues.forEach(issue => {
@@ -156,17 +240,13 @@ export function autoFixIssues(
 }
 
 /**
- * Get optimal parameters for printing
+ * Get optimal parameters for printing, using the settings of the chosen dough
  */
 export function getOptimalParameters(baseParams: CookieCutterParams): CookieCutterParams {
-  return {
-    ...baseParams,
-    wallThickness: 1.0,
-    cuttingHeight: 12,
-    taperAngle: 7,
-    handleHeight: 8,
-    stampDepth: 2.5,
-  };
+  return applyDoughPreset(
+    { ...baseParams, wallThickness: 1.0, handleHeight: 8 },
+    baseParams.doughType
+  );
 }
 
 /**
@@ -178,28 +258,57 @@ export function detectOverhangs(params: CookieCutterParams): boolean {
 }
 
 /**
- * Calculate print time estimate (in minutes)
+ * Print estimate for a generated model, as used for quoting orders
+ */
+export interface PrintEstimate {
+  volume: number; // solid volume of the model, in mm³
+  layerCount: number;
+  extrusionLength: number; // length of extruded lines, in mm
+  filamentLength: number; // in mm
+  filamentVolume: number; // in mm³
+  time: number; // in minutes
+}
+
+/**
+ * Weight and price of the filament a print uses
+ */
+export interface FilamentCost {
+  weight: number; // in g
+  cost: number; // in the spool price's currency
+}
+
+/**
+ * Estimate filament use and print time by planning the same toolpaths the
+ * G-code export prints, so sparse infill in thick parts is accounted for
  */
-export function estimatePrintTime(params: CookieCutterParams): number {
-  // Very rough estimation based on volume
-  const wallVolume = params.wallThickness * params.cuttingHeight * 100; // Simplified
-  const handleVolume = params.enableHandle ? params.handleHeight * 50 : 0;
-  const totalVolume = (wallVolume + handleVolume) * params.scale;
-
-  // Assume 10mm³/min print speed
-  return Math.round(totalVolume / 10);
+export async function estimatePrint(
+  object: Mesh | Group,
+  profile: PrinterProfile,
+  params: CookieCutterParams,
+  taskOptions: TaskOptions = {}
+): Promise<PrintEstimate> {
+  const { summary } = await planPrint(object, profile, params, taskOptions);
+  const filamentArea = Math.PI * Math.pow(profile.filamentDiameter / 2, 2);
+
+  return {
+    volume: getMeshVolume(object),
+    layerCount: summary.layerCount,
+    extrusionLength: summary.extrusionLength,
+    filamentLength: summary.filamentLength,
+    filamentVolume: summary.filamentLength * filamentArea,
+    time: summary.time,
+  };
 }
 
 /**
- * Calculate filament usage estimate (in grams)
+ * Weight and price of a volume of filament (in mm³) from the material's
+ * density and spool price
  */
-export function estimateFilamentUsage(params: CookieCutterParams): number {
-  // Very rough estimation
-  // PLA density ≈ 1.24 g/cm³
-  const wallVolume = params.wallThickness * params.cuttingHeight * 100; // mm³
-  const handleVolume = params.enableHandle ? params.handleHeight * 50 : 0;
-  const totalVolume = (wallVolume + handleVolume) * params.scale;
-
-  // Convert mm³ to cm³ and multiply by density
-  return Math.round((totalVolume / 1000) * 1.24);
+export function calculateFilamentCost(filamentVolume: number, material: MaterialPreset): FilamentCost {
+  // mm³ to cm³, times g/cm³
+  const weight = (filamentVolume / 1000) * material.properties.density;
+  return {
+    weight,
+    cost: (weight / material.spool.weight) * material.spool.price,
+  };
 }
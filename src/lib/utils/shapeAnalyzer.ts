@@ -0,0 +1,167 @@
+import type { CookieCutterParams } from '../types/CookieCutter';
+import type { OptimizationIssue, IssueRegion } from './printOptimizer';
+import {
+  offsetPath,
+  offsetPaths,
+  openPaths,
+  closePaths,
+  unionPaths,
+  differencePaths,
+  pathArea,
+  pathCentroid,
+} from './pathOperations';
+
+type Point = { x: number; y: number };
+
+/**
+ * Narrowest gap (in mm) a printer reliably keeps open between two walls,
+ * about one line of a 0.4mm nozzle
+ */
+export const MIN_GAP_WIDTH = 0.4;
+
+/**
+ * Separate outline pieces smaller than this (in mm²) are specks rather than
+ * cutters of their own
+ */
+export const MIN_ISLAND_AREA = 10;
+
+/**
+ * Miter limit for the analysis offsets, high enough that sharp corners
+ * survive an offset and its reverse instead of being reported as problems
+ */
+const ANALYSIS_MITER_LIMIT = 10;
+
+/**
+ * Problem areas narrower than this (in mm) are offset noise, not features
+ */
+const MIN_REGION_WIDTH = 0.1;
+
+/**
+ * Problem areas smaller than this (in mm²) are ignored
+ */
+const MIN_REGION_AREA = 0.05;
+
+/**
+ * Margin (in mm) added around a problem area so slivers stay visible when
+ * highlighted
+ */
+const HIGHLIGHT_MARGIN = 1;
+
+/**
+ * Most regions reported per kind of problem, largest first
+ */
+const MAX_REGIONS_PER_CHECK = 10;
+
+/**
+ * Drop the offset noise from a set of problem areas: hairlines left where
+ * an offset and its reverse do not quite meet, and specks
+ */
+async function removeNoise(problem: Point[][]): Promise<Point[][]> {
+  return (await openPaths(problem, MIN_REGION_WIDTH, 'miter', ANALYSIS_MITER_LIMIT))
+    .filter(path => Math.abs(pathArea(path)) >= MIN_REGION_AREA);
+}
+
+/**
+ * Parts of `region` narrower than `width`
+ */
+export async function findNarrowParts(region: Point[][], width: number): Promise<Point[][]> {
+  const opened = await openPaths(region, width, 'miter', ANALYSIS_MITER_LIMIT);
+  return removeNoise(await differencePaths(region, opened));
+}
+
+/**
+ * Gaps in `region` narrower than `width`
+ */
+export async function findNarrowGaps(region: Point[][], width: number): Promise<Point[][]> {
+  const closed = await closePaths(region, width, 'miter', ANALYSIS_MITER_LIMIT);
+  return removeNoise(await differencePaths(closed, region));
+}
+
+/**
+ * Split problem areas into separate highlight regions, merging areas that
+ * lie within the highlight margin of each other
+ */
+async function toRegions(problem: Point[][]): Promise<IssueRegion[]> {
+  if (problem.length === 0) return [];
+
+  const padded = await offsetPaths(problem, HIGHLIGHT_MARGIN, 'round');
+
+  // Outer paths share the orientation of the largest one; the rest are holes
+  const largest = padded.reduce((a, b) => (Math.abs(pathArea(b)) > Math.abs(pathArea(a)) ? b : a));
+  const outers = padded.filter(path => Math.sign(pathArea(path)) === Math.sign(pathArea(largest)));
+
+  return outers
+    .sort((a, b) => Math.abs(pathArea(b)) - Math.abs(pathArea(a)))
+    .slice(0, MAX_REGIONS_PER_CHECK)
+    .map(outline => ({ center: pathCentroid(outline), outline }));
+}
+
+/**
+ * Find the places where a cutter's outlines are too fine to print as
+ * designed. Outlines are in millimetres in the model's X/Z plane, and the
+ * returned regions use the same coordinates.
+ *
+ * Inward offsets of the outline shape find parts narrower than the two
+ * half walls inside them, where the walls fuse into a solid strip; outward
+ * offsets find notches and gaps between outlines that the walls outside
+ * them close up. Separate pieces too small to cut are reported too.
+ * Outward offsets of the printed walls then find the slots left between
+ * walls that are narrower than a nozzle line.
+ */
+export async function analyzeCutterShape(
+  outlines: Point[][],
+  params: CookieCutterParams
+): Promise<OptimizationIssue[]> {
+  const wallThickness = params.wallThickness;
+  const shape = await unionPaths(outlines);
+
+  // The walls around every outline, as printed at the cutting edge
+  const rings: Point[][] = [];
+  for (const outline of outlines) {
+    const outer = await offsetPath(outline, wallThickness / 2, 'miter', ANALYSIS_MITER_LIMIT);
+    const inner = await offsetPath(outline, -wallThickness / 2, 'miter', ANALYSIS_MITER_LIMIT);
+    rings.push(...await differencePaths(outer, inner));
+  }
+  const walls = await unionPaths(rings);
+
+  const issues: OptimizationIssue[] = [];
+  const report = (regions: IssueRegion[], issue: Omit<OptimizationIssue, 'region'>) => {
+    for (const region of regions) {
+      issues.push({ ...issue, region });
+    }
+  };
+
+  report(await toRegions(await findNarrowParts(shape, wallThickness)), {
+    severity: 'warning',
+    category: 'printability',
+    message: `Part of the outline is narrower than two walls (${wallThickness}mm)`,
+    suggestion: 'The walls fuse into a solid strip here and the cookie loses this part. ' +
+      'Widen it in the design, scale the design up or use thinner walls.',
+  });
+
+  report(await toRegions(await findNarrowGaps(shape, wallThickness)), {
+    severity: 'warning',
+    category: 'printability',
+    message: `Outline gap is narrower than two walls (${wallThickness}mm)`,
+    suggestion: 'The walls on either side merge across this notch or gap, so the cookie will not show it. ' +
+      'Open it up in the design or scale the design up.',
+  });
+
+  report(await toRegions(shape.filter(path => pathArea(path) > 0 && pathArea(path) < MIN_ISLAND_AREA)), {
+    severity: 'warning',
+    category: 'printability',
+    message: `Tiny separate piece (under ${MIN_ISLAND_AREA}mm²)`,
+    suggestion: 'This speck prints as a cutter of its own that is too small to use. ' +
+      'Remove it, or join it to the main outline.',
+  });
+
+  report(await toRegions(await findNarrowGaps(walls, MIN_GAP_WIDTH)), {
+    severity: 'warning',
+    category: 'quality',
+    message: `Walls come closer than a nozzle width (${MIN_GAP_WIDTH}mm)`,
+    suggestion: 'The slot between these walls prints closed or stringy. ' +
+      'Move the parts further apart, or close enough that the walls merge.',
+  });
+
+  return issues;
+}
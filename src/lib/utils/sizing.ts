@@ -0,0 +1,139 @@
+import type { CookieCutterParams } from '../types/CookieCutter';
+
+/**
+ * Final size of a design and the scale that maps SVG user units to it
+ */
+export interface DesignSizing {
+  scaleX: number; // mm per SVG user unit along X
+  scaleY: number; // mm per SVG user unit along Y
+  width: number; // outline width in mm
+  height: number; // outline height in mm
+  unitSize: number; // mm per user unit from the SVG's own width/height, before scale or target size
+  hasUnits: boolean; // whether the SVG declared a physical size
+}
+
+/**
+ * Share of the build plate a design may cover, leaving room for skirts and
+ * brims
+ */
+export const USABLE_PLATE_FRACTION = 0.8;
+
+/**
+ * Millimetres per absolute CSS unit; px depends on the chosen DPI
+ */
+const MM_PER_UNIT: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+};
+
+/**
+ * Parse an SVG length such as "80mm", "3in" or "300" into millimetres.
+ * Unitless lengths are px. Percentages and unknown units give null.
+ */
+export function parseSvgLength(value: string | null, dpi: number): number | null {
+  if (!value) return null;
+
+  const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z%]*)$/i);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (!(amount > 0)) return null;
+
+  if (unit === '' || unit === 'px') return (amount * 25.4) / dpi;
+  return unit in MM_PER_UNIT ? amount * MM_PER_UNIT[unit] : null;
+}
+
+/**
+ * Millimetres per user unit declared by the root element's width/height and
+ * viewBox, or null when the SVG declares no physical size.
+ */
+export function getSvgUnitSize(svgString: string, dpi: number): number | null {
+  const tag = svgString.match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return null;
+
+  const attribute = (name: string) => {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+    return match ? match[1] ?? match[2] : null;
+  };
+
+  const width = parseSvgLength(attribute('width'), dpi);
+  const height = parseSvgLength(attribute('height'), dpi);
+  if (width === null && height === null) return null;
+
+  const viewBox = (attribute('viewBox') || '').split(/[\s,]+/).map(parseFloat);
+  if (viewBox.length !== 4 || !(viewBox[2] > 0) || !(viewBox[3] > 0)) {
+    // Without a viewBox, user units are CSS pixels
+    return 25.4 / dpi;
+  }
+
+  // The viewBox is fitted inside the viewport (preserveAspectRatio "meet")
+  const scales = [
+    width !== null ? width / viewBox[2] : Infinity,
+    height !== null ? height / viewBox[3] : Infinity,
+  ];
+  return Math.min(...scales);
+}
+
+/**
+ * Work out the scale from SVG user units to millimetres.
+ *
+ * A target width or height wins over `scale`. With the aspect ratio locked,
+ * the target width is used when set and the height otherwise; unlocked, each
+ * axis follows its own target. Without a target, the SVG's declared size
+ * (or 1 unit = 1mm) is multiplied by `scale`.
+ */
+export function resolveSizing(
+  svgString: string,
+  bounds: { width: number; height: number },
+  params: CookieCutterParams
+): DesignSizing {
+  const declared = getSvgUnitSize(svgString, params.svgDpi);
+  const unitSize = declared ?? 1;
+  const natural = unitSize * params.scale;
+
+  const fitWidth = params.targetWidth > 0 && bounds.width > 0 ? params.targetWidth / bounds.width : null;
+  const fitHeight = params.targetHeight > 0 && bounds.height > 0 ? params.targetHeight / bounds.height : null;
+
+  let scaleX: number;
+  let scaleY: number;
+  if (params.lockAspect) {
+    scaleX = scaleY = fitWidth ?? fitHeight ?? natural;
+  } else {
+    scaleX = fitWidth ?? natural;
+    scaleY = fitHeight ?? natural;
+  }
+
+  return {
+    scaleX,
+    scaleY,
+    width: bounds.width * scaleX,
+    height: bounds.height * scaleY,
+    unitSize,
+    hasUnits: declared !== null,
+  };
+}
+
+/**
+ * Shrink a sizing uniformly so a footprint `margin` wider on every side
+ * fits the usable part of the build plate. Sizings that already fit are
+ * returned unchanged. Mitred wall corners can reach slightly past the
+ * margin, which the usable-plate allowance absorbs.
+ */
+export function fitSizingToPlate(sizing: DesignSizing, margin: number, buildPlateSize: number): DesignSizing {
+  const usable = buildPlateSize * USABLE_PLATE_FRACTION - margin * 2;
+  const largest = Math.max(sizing.width, sizing.height);
+  if (largest <= usable || usable <= 0) return sizing;
+
+  const factor = usable / largest;
+  return {
+    ...sizing,
+    scaleX: sizing.scaleX * factor,
+    scaleY: sizing.scaleY * factor,
+    width: sizing.width * factor,
+    height: sizing.height * factor,
+  };
+}
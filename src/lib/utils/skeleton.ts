@@ -0,0 +1,227 @@
+import type { PathPoint } from './svgPathExtractor';
+
+/**
+ * A line along the middle of a stroke, in pixel centres
+ */
+export interface SkeletonLine {
+  points: PathPoint[];
+  closed: boolean;
+}
+
+/**
+ * Offsets of the 8 neighbours of a pixel, clockwise from the one above
+ */
+const NEIGHBOURS = [[0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]];
+
+/**
+ * Which neighbours of a pixel are set, clockwise from the one above
+ */
+function neighbourhood(bits: Uint8Array, width: number, height: number, x: number, y: number): boolean[] {
+  return NEIGHBOURS.map(([dx, dy]) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    return nx >= 0 && ny >= 0 && nx < width && ny < height && bits[ny * width + nx] === 1;
+  });
+}
+
+/**
+ * Whether the set neighbours of a pixel touch each other as one group, so
+ * the pixel can go without splitting anything
+ */
+function isSimple(around: boolean[]): boolean {
+  const set = NEIGHBOURS.filter((_, i) => around[i]);
+  if (set.length < 2) return false;
+
+  const reached = [set[0]];
+  const rest = set.slice(1);
+  for (let i = 0; i < reached.length; i++) {
+    const [x, y] = reached[i];
+    for (let j = rest.length - 1; j >= 0; j--) {
+      if (Math.abs(rest[j][0] - x) <= 1 && Math.abs(rest[j][1] - y) <= 1) {
+        reached.push(rest[j]);
+        rest.splice(j, 1);
+      }
+    }
+  }
+  return rest.length === 0;
+}
+
+/**
+ * Thin a bitmap to lines one pixel wide with the Zhang-Suen algorithm,
+ * then remove the corner pixels it leaves on diagonal steps so every line
+ * pixel has exactly two neighbours
+ */
+export function thinMask(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const bits = mask.slice();
+  const remove: number[] = [];
+
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const pass of [0, 1]) {
+      remove.length = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!bits[y * width + x]) continue;
+
+          const [p2, p3, p4, p5, p6, p7, p8, p9] = neighbourhood(bits, width, height, x, y);
+          const ring = [p2, p3, p4, p5, p6, p7, p8, p9, p2];
+          const count = ring.slice(0, 8).filter(Boolean).length;
+          let transitions = 0;
+          for (let i = 0; i < 8; i++) {
+            if (!ring[i] && ring[i + 1]) transitions++;
+          }
+
+          if (count < 2 || count > 6 || transitions !== 1) continue;
+          if (pass === 0 ? (p2 && p4 && p6) || (p4 && p6 && p8) : (p2 && p4 && p8) || (p2 && p6 && p8)) continue;
+          remove.push(y * width + x);
+        }
+      }
+
+      for (const index of remove) bits[index] = 0;
+      if (remove.length > 0) changed = true;
+    }
+  }
+
+  // Remove the corner pixels of diagonal steps one at a time, so lines stay connected
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (bits[y * width + x] && isSimple(neighbourhood(bits, width, height, x, y))) {
+        bits[y * width + x] = 0;
+      }
+    }
+  }
+
+  return bits;
+}
+
+/**
+ * Length of a line, closing it when it is a ring
+ */
+function lineLength(line: SkeletonLine): number {
+  const { points } = line;
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  if (line.closed && points.length > 1) {
+    length += Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Follow a thinned bitmap into lines. Lines run between ends and
+ * junctions; rings without either come back closed. Lines shorter than
+ * `minLength` are left out when they are spurs, from a junction to a free
+ * end, which come from bumps in the stroke outline, or links between two
+ * junctions, which thinning leaves where strokes cross.
+ */
+export function traceSkeleton(bits: Uint8Array, width: number, height: number, minLength = 0): SkeletonLine[] {
+  const neighbours = (index: number): number[] => {
+    const x = index % width;
+    const y = (index - x) / width;
+    const found: number[] = [];
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx >= 0 && ny >= 0 && nx < width && ny < height && bits[ny * width + nx]) found.push(ny * width + nx);
+    }
+    return found;
+  };
+
+  const visited = new Set<number>();
+  const edge = (a: number, b: number) => Math.min(a, b) * bits.length + Math.max(a, b);
+  const toPoint = (index: number): PathPoint => ({ x: (index % width) + 0.5, y: Math.floor(index / width) + 0.5 });
+
+  const walk = (start: number, next: number): SkeletonLine => {
+    const line = [start];
+    let previous = start;
+    let current = next;
+    visited.add(edge(start, next));
+
+    for (;;) {
+      line.push(current);
+      const onward = neighbours(current);
+      if (onward.length !== 2) break;
+
+      const following = onward[0] === previous ? onward[1] : onward[0];
+      if (visited.has(edge(current, following))) break;
+      visited.add(edge(current, following));
+      previous = current;
+      current = following;
+    }
+
+    const closed = line.length > 2 && line[line.length - 1] === start;
+    return { points: (closed ? line.slice(0, -1) : line).map(toPoint), closed };
+  };
+
+  const lines: SkeletonLine[] = [];
+  const pixels: number[] = [];
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i]) pixels.push(i);
+  }
+
+  // Lines from every end and junction first, then the rings left over
+  for (const nodes of [true, false]) {
+    for (const pixel of pixels) {
+      const around = neighbours(pixel);
+      if ((around.length !== 2) !== nodes) continue;
+      if (around.length === 0) {
+        lines.push({ points: [toPoint(pixel)], closed: false });
+        continue;
+      }
+      for (const next of around) {
+        if (visited.has(edge(pixel, next))) continue;
+
+        const line = walk(pixel, next);
+        const last = line.points[line.points.length - 1];
+        const endDegree = neighbours(Math.floor(last.y) * width + Math.floor(last.x)).length;
+        const spur = Math.min(around.length, endDegree) === 1 && Math.max(around.length, endDegree) > 2;
+        const link = Math.min(around.length, endDegree) > 2;
+        if (line.closed || !(spur || link) || lineLength(line) >= minLength) lines.push(line);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Distance of every set pixel to the nearest unset one, in pixels, with a
+ * two-pass chamfer transform
+ */
+export function distanceTransform(mask: Uint8Array, width: number, height: number): Float32Array {
+  const distance = new Float32Array(mask.length);
+  for (let i = 0; i < mask.length; i++) {
+    distance[i] = mask[i] ? Infinity : 0;
+  }
+
+  const relax = (x: number, y: number, dx: number, dy: number, cost: number) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    // Outside the image counts as unset
+    const other = nx >= 0 && ny >= 0 && nx < width && ny < height ? distance[ny * width + nx] : 0;
+    distance[y * width + x] = Math.min(distance[y * width + x], other + cost);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      relax(x, y, -1, 0, 1);
+      relax(x, y, 0, -1, 1);
+      relax(x, y, -1, -1, Math.SQRT2);
+      relax(x, y, 1, -1, Math.SQRT2);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      if (!mask[y * width + x]) continue;
+      relax(x, y, 1, 0, 1);
+      relax(x, y, 0, 1, 1);
+      relax(x, y, 1, 1, Math.SQRT2);
+      relax(x, y, -1, 1, Math.SQRT2);
+    }
+  }
+
+  return distance;
+}
@@ -1,5 +1,13 @@
 import * as THREE from 'three';
 import type { Mesh, Group } from 'three';
+import {
+  offsetPaths,
+  unionPaths,
+  differencePaths,
+  intersectPaths,
+  clipOpenPaths,
+} from './pathOperations';
+import { checkpoint, subTask, type TaskOptions } from './taskControl';
 
 export interface SliceLayer {
   z: number;
@@ -14,21 +22,35 @@ export interface SlicingOptions {
 }
 
 /**
- * Slice a 3D mesh into horizontal layers for print preview
+ * Grid used to match segment end points when chaining them into loops, in mm
  */
-export function sliceMesh(
+const JOIN_TOLERANCE = 1e-4;
+
+/**
+ * Slice a 3D mesh into horizontal layers for print preview.
+ *
+ * The mesh is sliced along world Z, so pass it in the bed frame (see
+ * `orientForPrint`) rather than the Y-up scene. Each layer is cut through
+ * its middle so vertices never sit exactly on the plane. Contours are
+ * closed, outer loops counter-clockwise and holes clockwise.
+ */
+export async function sliceMesh(
   object: Mesh | Group,
-  options: SlicingOptions
-): SliceLayer[] {
+  options: SlicingOptions,
+  taskOptions: TaskOptions = {}
+): Promise<SliceLayer[]> {
   const layers: SliceLayer[] = [];
   const { layerHeight, minZ, maxZ } = options;
+  const triangles = collectTriangles(object);
 
   // Calculate number of layers
   const numLayers = Math.ceil((maxZ - minZ) / layerHeight);
 
   for (let i = 0; i < numLayers; i++) {
-    const z = minZ + i * layerHeight;
-    const layer = sliceAtHeight(object, z);
+    await checkpoint(taskOptions, i / numLayers, `Slicing layer ${i + 1} of ${numLayers}`);
+
+    const z = minZ + (i + 0.5) * layerHeight;
+    const layer = await sliceAtHeight(triangles, z);
 
     if (layer.contours.length > 0) {
       layers.push(layer);
@@ -39,11 +61,11 @@ export function sliceMesh(
 }
 
 /**
- * Slice the mesh at a specific Z height
+ * World-space triangles of every mesh in the object
  */
-function sliceAtHeight(object: Mesh | Group, z: number): SliceLayer {
-  const contours: THREE.Vector2[][] = [];
-  const lineSegments: THREE.Vector3[] = [];
+function collectTriangles(object: Mesh | Group): THREE.Triangle[] {
+  const triangles: THREE.Triangle[] = [];
+  object.updateMatrixWorld(true);
 
   object.traverse((child) => {
     if (child instanceof THREE.Mesh && child.geometry) {
@@ -54,8 +76,9 @@ function sliceAtHeight(object: Mesh | Group, z: number): SliceLayer {
 
       const worldMatrix = child.matrixWorld;
       const index = geometry.index;
+      const vertex = (i: number) =>
+        new THREE.Vector3().fromBufferAttribute(positionAttribute, i).applyMatrix4(worldMatrix);
 
-      // Get triangles
       const triangleCount = index
         ? index.count / 3
         : positionAttribute.count / 3;
@@ -64,37 +87,39 @@ function sliceAtHeight(object: Mesh | Group, z: number): SliceLayer {
         const i0 = index ? index.getX(i * 3) : i * 3;
         const i1 = index ? index.getX(i * 3 + 1) : i * 3 + 1;
         const i2 = index ? index.getX(i * 3 + 2) : i * 3 + 2;
-
-        const v0 = new THREE.Vector3(
-          positionAttribute.getX(i0),
-          positionAttribute.getY(i0),
-          positionAttribute.getZ(i0)
-        ).applyMatrix4(worldMatrix);
-
-        const v1 = new THREE.Vector3(
-          positionAttribute.getX(i1),
-          positionAttribute.getY(i1),
-          positionAttribute.getZ(i1)
-        ).applyMatrix4(worldMatrix);
-
-        const v2 = new THREE.Vector3(
-          positionAttribute.getX(i2),
-          positionAttribute.getY(i2),
-          positionAttribute.getZ(i2)
-        ).applyMatrix4(worldMatrix);
-
-        // Check if triangle intersects the Z plane
-        const intersection = intersectTriangleWithPlane(v0, v1, v2, z);
-        if (intersection) {
-          lineSegments.push(...intersection);
-        }
+        triangles.push(new THREE.Triangle(vertex(i0), vertex(i1), vertex(i2)));
       }
     }
   });
 
-  // Convert line segments to contours
-  const contourPaths = connectLineSegments(lineSegments);
-  contours.push(...contourPaths);
+  return triangles;
+}
+
+/**
+ * Slice the mesh at a specific height (the Z axis is up)
+ */
+async function sliceAtHeight(triangles: THREE.Triangle[], z: number): Promise<SliceLayer> {
+  const segments: [THREE.Vector2, THREE.Vector2][] = [];
+  const normal = new THREE.Vector3();
+
+  for (const triangle of triangles) {
+    const intersection = intersectTriangleWithPlane(triangle.a, triangle.b, triangle.c, z);
+    if (!intersection) continue;
+
+    // Orient the segment so the solid lies on its left
+    triangle.getNormal(normal);
+    const [p, q] = intersection;
+    const dx = q.x - p.x;
+    const dy = q.y - p.y;
+    segments.push(dy * normal.x - dx * normal.y >= 0 ? [p, q] : [q, p]);
+  }
+
+  // Resolve overlapping shells and loop orientation into clean contours
+  const loops = connectLineSegments(segments);
+  const regions = loops.length > 0 ? await unionPaths(loops) : [];
+  const contours = regions
+    .filter(path => path.length > 2)
+    .map(path => path.map(p => new THREE.Vector2(p.x, p.y)));
 
   // Create geometry for this layer
   const geometry = createLayerGeometry(contours, z);
@@ -103,84 +128,78 @@ function sliceAtHeight(object: Mesh | Group, z: number): SliceLayer {
 }
 
 /**
- * Find intersection of a triangle with a horizontal plane at height Z
+ * Find where a triangle crosses a horizontal plane at height Z.
+ * Returns the segment in (x, y) plane coordinates.
  */
 function intersectTriangleWithPlane(
   v0: THREE.Vector3,
   v1: THREE.Vector3,
   v2: THREE.Vector3,
   z: number
-): THREE.Vector3[] | null {
+): [THREE.Vector2, THREE.Vector2] | null {
   const vertices = [v0, v1, v2];
-  const intersections: THREE.Vector3[] = [];
+  const intersections: THREE.Vector2[] = [];
 
-  // Check each edge of the triangle
+  // Vertices on the plane count as above it, so each crossing is seen once
   for (let i = 0; i < 3; i++) {
-    const a = vertices[i];
-    const b = vertices[(i + 1) % 3];
-
-    // Check if edge crosses the plane
-    if ((a.z <= z && b.z >= z) || (a.z >= z && b.z <= z)) {
-      if (Math.abs(a.z - b.z) < 0.0001) continue; // Skip if edge is on the plane
-
-      // Linear interpolation to find intersection point
-      const t = (z - a.z) / (b.z - a.z);
-      const intersection = new THREE.Vector3(
-        a.x + t * (b.x - a.x),
-        a.y + t * (b.y - a.y),
-        z
-      );
-      intersections.push(intersection);
-    }
+    let a = vertices[i];
+    let b = vertices[(i + 1) % 3];
+    if ((a.z >= z) === (b.z >= z)) continue;
+
+    // Interpolate in a fixed order so neighbouring triangles agree exactly
+    if (a.z > b.z) [a, b] = [b, a];
+    const t = (z - a.z) / (b.z - a.z);
+    intersections.push(new THREE.Vector2(
+      a.x + t * (b.x - a.x),
+      a.y + t * (b.y - a.y)
+    ));
   }
 
   // Should have 0 or 2 intersections
-  return intersections.length === 2 ? intersections : null;
+  return intersections.length === 2 ? [intersections[0], intersections[1]] : null;
 }
 
 /**
- * Connect line segments into closed contours
+ * Chain oriented line segments into closed contours
  */
-function connectLineSegments(segments: THREE.Vector3[]): THREE.Vector2[][] {
-  if (segments.length === 0) return [];
+function connectLineSegments(segments: [THREE.Vector2, THREE.Vector2][]): THREE.Vector2[][] {
+  const key = (p: THREE.Vector2) =>
+    `${Math.round(p.x / JOIN_TOLERANCE)},${Math.round(p.y / JOIN_TOLERANCE)}`;
+
+  // Segments by the key of their start point
+  const starts = new Map<string, number[]>();
+  segments.forEach(([p], i) => {
+    const k = key(p);
+    const list = starts.get(k);
+    if (list) {
+      list.push(i);
+    } else {
+      starts.set(k, [i]);
+    }
+  });
 
   const contours: THREE.Vector2[][] = [];
   const used = new Set<number>();
 
-  for (let i = 0; i < segments.length; i += 2) {
+  for (let i = 0; i < segments.length; i++) {
     if (used.has(i)) continue;
 
-    const contour: THREE.Vector2[] = [];
-    contour.push(new THREE.Vector2(segments[i].x, segments[i].y));
-    contour.push(new THREE.Vector2(segments[i + 1].x, segments[i + 1].y));
+    const contour: THREE.Vector2[] = [segments[i][0]];
+    const startKey = key(segments[i][0]);
     used.add(i);
+    let end = segments[i][1];
 
-    // Try to extend the contour
-    let extended = true;
-    while (extended) {
-      extended = false;
-      const lastPoint = contour[contour.length - 1];
-
-      for (let j = 0; j < segments.length; j += 2) {
-        if (used.has(j)) continue;
-
-        const p0 = new THREE.Vector2(segments[j].x, segments[j].y);
-        const p1 = new THREE.Vector2(segments[j + 1].x, segments[j + 1].y);
-
-        const threshold = 0.01;
-
-        if (lastPoint.distanceTo(p0) < threshold) {
-          contour.push(p1);
-          used.add(j);
-          extended = true;
-          break;
-        } else if (lastPoint.distanceTo(p1) < threshold) {
-          contour.push(p0);
-          used.add(j);
-          extended = true;
-          break;
-        }
-      }
+    // Follow the chain until it returns to its start or runs out
+    while (key(end) !== startKey) {
+      const next = starts.get(key(end))?.find(j => !used.has(j));
+      if (next === undefined) break;
+
+      contour.push(end);
+      used.add(next);
+      end = segments[next][1];
+    }
+    if (key(end) !== startKey) {
+      contour.push(end);
     }
 
     if (contour.length > 2) {
@@ -194,7 +213,7 @@ function connectLineSegments(segments: THREE.Vector3[]): THREE.Vector2[][] {
 /**
  * Create line geometry for a layer
  */
-function createLayerGeometry(contours: THREE.Vector2[][], z: number): THREE.BufferGeometry {
+export function createLayerGeometry(contours: THREE.Vector2[][], z: number): THREE.BufferGeometry {
   const vertices: number[] = [];
 
   for (const contour of contours) {
@@ -202,8 +221,8 @@ function createLayerGeometry(contours: THREE.Vector2[][], z: number): THREE.Buff
       const p0 = contour[i];
       const p1 = contour[(i + 1) % contour.length];
 
-      vertices.push(p0.x, z, p0.y);
-      vertices.push(p1.x, z, p1.y);
+      vertices.push(p0.x, p0.y, z);
+      vertices.push(p1.x, p1.y, z);
     }
   }
 
@@ -232,11 +251,43 @@ export function getMeshBounds(object: Mesh | Group): { minZ: number; maxZ: numbe
   box.setFromObject(object);
 
   return {
-    minZ: box.min.y,
-    maxZ: box.max.y
+    minZ: box.min.z,
+    maxZ: box.max.z
   };
 }
 
+/**
+ * Enclosed volume of every mesh in an object, in mm³. Sums the signed
+ * volumes of the tetrahedra each triangle spans with the origin, which is
+ * exact for closed meshes.
+ */
+export function getMeshVolume(object: THREE.Object3D): number {
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  let volume = 0;
+
+  object.updateWorldMatrix(true, true);
+  object.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+
+    for (let i = 0; i < count; i += 3) {
+      const [ia, ib, ic] = index ? [index.getX(i), index.getX(i + 1), index.getX(i + 2)] : [i, i + 1, i + 2];
+      a.fromBufferAttribute(position, ia).applyMatrix4(child.matrixWorld);
+      b.fromBufferAttribute(position, ib).applyMatrix4(child.matrixWorld);
+      c.fromBufferAttribute(position, ic).applyMatrix4(child.matrixWorld);
+      volume += a.dot(b.cross(c)) / 6;
+    }
+  });
+
+  return Math.abs(volume);
+}
+
 /**
  * Estimate print time based on layer count and complexity
  */
@@ -254,3 +305,144 @@ export function estimateLayerPrintTime(layer: SliceLayer, printSpeed: number = 5
   // Time = distance / speed (in mm/s) + overhead
   return (totalLength / printSpeed) + 2; // 2 seconds overhead per layer
 }
+
+export interface ToolpathOptions {
+  layerHeight: number; // in mm
+  lineWidth: number; // in mm, usually the nozzle diameter
+  perimeterCount: number;
+  solidLayerCount: number; // solid layers under and over every surface
+  infillDensity: number; // 0-1, for the sparse interior
+}
+
+export interface LayerToolpaths {
+  z: number; // nozzle height above the bed
+  perimeters: { x: number; y: number }[][]; // closed loops, innermost first
+  solidInfill: { x: number; y: number }[][]; // open lines
+  sparseInfill: { x: number; y: number }[][]; // open lines
+}
+
+/**
+ * How far infill lines reach into the innermost perimeter, as a fraction of
+ * the line width
+ */
+const INFILL_OVERLAP = 0.25;
+
+/**
+ * Inset used for walls too thin to fit half a line width, in mm
+ */
+const THIN_WALL_INSET = 0.05;
+
+/**
+ * Slice a mesh, given in the bed frame, and plan the extrusion paths of
+ * every layer.
+ *
+ * Perimeters are Clipper insets of the layer contours spaced one line width
+ * apart. Areas not covered within `solidLayerCount` layers above or below
+ * become solid top/bottom skin, the rest of the interior gets sparse infill.
+ */
+export async function planToolpaths(
+  object: Mesh | Group,
+  options: ToolpathOptions,
+  taskOptions: TaskOptions = {}
+): Promise<LayerToolpaths[]> {
+  const { layerHeight, lineWidth, perimeterCount, solidLayerCount, infillDensity } = options;
+  const { minZ, maxZ } = getMeshBounds(object);
+  const layers = await sliceMesh(object, { layerHeight, minZ, maxZ }, subTask(taskOptions, 0, 0.3));
+
+  // Contours by layer index, including empty layers
+  const layerCount = Math.ceil((maxZ - minZ) / layerHeight);
+  const regions: { x: number; y: number }[][][] = Array.from({ length: layerCount }, () => []);
+  for (const layer of layers) {
+    regions[Math.floor((layer.z - minZ) / layerHeight)] = layer.contours;
+  }
+
+  const toolpaths: LayerToolpaths[] = [];
+  for (let i = 0; i < layerCount; i++) {
+    await checkpoint(taskOptions, 0.3 + (0.7 * i) / layerCount, `Planning layer ${i + 1} of ${layerCount}`);
+
+    const region = regions[i];
+    if (region.length === 0) continue;
+
+    // Perimeters from the outside in
+    const shells: { x: number; y: number }[][][] = [];
+    for (let k = 0; k < perimeterCount; k++) {
+      let loops = await offsetPaths(region, -(k + 0.5) * lineWidth);
+      if (k === 0 && loops.length === 0) {
+        loops = await offsetPaths(region, -THIN_WALL_INSET);
+      }
+      if (loops.length === 0) break;
+      shells.push(loops);
+    }
+
+    const infillArea = shells.length === perimeterCount
+      ? await offsetPaths(region, -(perimeterCount + 0.5 - INFILL_OVERLAP) * lineWidth)
+      : [];
+
+    // Whatever is exposed to air within a few layers becomes solid skin
+    const exposed: { x: number; y: number }[][] = [];
+    for (let j = 1; j <= solidLayerCount && infillArea.length > 0; j++) {
+      for (const neighbour of [regions[i - j], regions[i + j]]) {
+        exposed.push(...(neighbour && neighbour.length > 0
+          ? await differencePaths(region, neighbour)
+          : region));
+      }
+    }
+
+    const solidArea = exposed.length > 0 ? await intersectPaths(infillArea, exposed) : [];
+    const sparseArea = infillArea.length > 0 ? await differencePaths(infillArea, solidArea) : [];
+
+    // Alternate the fill direction between layers
+    const angle = i % 2 === 0 ? Math.PI / 4 : -Math.PI / 4;
+
+    toolpaths.push({
+      z: (i + 1) * layerHeight,
+      perimeters: shells.reverse().flat(),
+      solidInfill: await createInfillLines(solidArea, lineWidth, angle),
+      sparseInfill: infillDensity > 0
+        ? await createInfillLines(sparseArea, lineWidth / infillDensity, angle)
+        : [],
+    });
+  }
+
+  return toolpaths;
+}
+
+/**
+ * Fill an area with parallel lines at the given spacing and angle.
+ * Lines sit on a fixed grid so sparse infill stacks from layer to layer.
+ */
+async function createInfillLines(
+  area: { x: number; y: number }[][],
+  spacing: number,
+  angle: number
+): Promise<{ x: number; y: number }[][]> {
+  if (area.length === 0) return [];
+
+  // Work in a frame where the lines are horizontal
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const path of area) {
+    for (const p of path) {
+      const x = p.x * cos + p.y * sin;
+      const y = -p.x * sin + p.y * cos;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  const lines: { x: number; y: number }[][] = [];
+  for (let y = Math.ceil(minY / spacing) * spacing; y <= maxY; y += spacing) {
+    lines.push([minX - spacing, maxX + spacing].map(x => ({
+      x: x * cos - y * sin,
+      y: x * sin + y * cos,
+    })));
+  }
+
+  return lines.length > 0 ? clipOpenPaths(lines, area) : [];
+}
@@ -1,38 +1,57 @@
 import * as THREE from 'three';
-import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
 import type { CookieCutterParams } from '../types/CookieCutter';
+import { resolveSizing, fitSizingToPlate, type DesignSizing } from './sizing';
+import { parseSVGPaths } from './svgParser';
+import { getPathShapes } from './svgStrokes';
+import { checkpoint, type TaskOptions } from './taskControl';
+
+/**
+ * Border of the base plate around the relief, in mm
+ */
+const BASE_PADDING = 10;
 
 /**
  * Generate a stamp (raised relief) instead of a cutter
  */
 export async function generateStamp(
   svgString: string,
-  params: CookieCutterParams
+  params: CookieCutterParams,
+  options: TaskOptions = {}
 ): Promise<THREE.Group> {
-  const loader = new SVGLoader();
-  const svgData = loader.parse(svgString);
+  const paths = parseSVGPaths(svgString);
 
-  if (!svgData.paths || svgData.paths.length === 0) {
+  if (paths.length === 0) {
     throw new Error('No paths found in SVG');
   }
 
   const group = new THREE.Group();
   group.name = 'cookieCutter';
 
+  // Fills and strokes alike become raised relief
+  const pathShapes = await Promise.all(paths.map(getPathShapes));
+
+  // Size the design from the bounds of every shape
+  const bounds = getShapeBounds(pathShapes.flat());
+  const boundsSize = bounds.getSize(new THREE.Vector2());
+  let sizing = resolveSizing(svgString, { width: boundsSize.x, height: boundsSize.y }, params);
+  if (params.fitToPlate) {
+    sizing = fitSizingToPlate(sizing, params.stampBase ? BASE_PADDING : 0, params.buildPlateSize || 200);
+  }
+
   // Create base plate if enabled
   if (params.stampBase) {
-    const basePlate = createBasePlate(svgData.paths, params);
+    const basePlate = createBasePlate(bounds, sizing);
     basePlate.name = 'stamp-base';
     group.add(basePlate);
   }
 
   // Process each path to create raised relief
   let shapeIndex = 0;
-  for (const path of svgData.paths) {
-    const shapes = SVGLoader.createShapes(path);
+  for (let pathIndex = 0; pathIndex < paths.length; pathIndex++) {
+    await checkpoint(options, pathIndex / paths.length, `Building path ${pathIndex + 1} of ${paths.length}`);
 
-    for (const shape of shapes) {
-      const reliefMesh = createRaisedRelief(shape, params);
+    for (const shape of pathShapes[pathIndex]) {
+      const reliefMesh = createRaisedRelief(shape, params, sizing);
       reliefMesh.name = `stamp-relief-${shapeIndex}`;
       group.add(reliefMesh);
 
@@ -49,55 +68,40 @@ export async function generateStamp(
     }
   }
 
-  // Auto-scale to fit within build plate
-  const buildPlateSize = params.buildPlateSize || 200;
-  const box = new THREE.Box3().setFromObject(group);
-  const size = box.getSize(new THREE.Vector3());
-  const center = box.getCenter(new THREE.Vector3());
+  // Position centered
+  const center = new THREE.Box3().setFromObject(group).getCenter(new THREE.Vector3());
+  group.position.set(-center.x, 0, -center.z);
 
-  const maxDimension = Math.max(size.x, size.z);
+  // Keep the final size for the parameter panel and viewer
+  group.userData.sizing = sizing;
 
-  if (maxDimension > buildPlateSize * 0.8) {
-    const autoScale = (buildPlateSize * 0.8) / maxDimension;
-    group.scale.set(autoScale, autoScale, autoScale);
+  return group;
+}
 
-    box.setFromObject(group);
-    center.copy(box.getCenter(new THREE.Vector3()));
-  }
+/**
+ * Bounding box of shapes, in user units
+ */
+function getShapeBounds(shapes: THREE.Shape[]): THREE.Box2 {
+  const bounds = new THREE.Box2();
 
-  // Position centered
-  group.position.set(-center.x, 0, -center.z);
+  for (const shape of shapes) {
+    for (const point of shape.getPoints()) {
+      bounds.expandByPoint(point);
+    }
+  }
 
-  return group;
+  return bounds;
 }
 
 /**
  * Create base plate for the stamp
  */
 function createBasePlate(
-  paths: any[],
-  params: CookieCutterParams
+  bounds: THREE.Box2,
+  sizing: DesignSizing
 ): THREE.Mesh {
-  // Calculate bounding box of all paths
-  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-  for (const path of paths) {
-    const shapes = SVGLoader.createShapes(path);
-    for (const shape of shapes) {
-      const points = shape.getPoints();
-      for (const point of points) {
-        minX = Math.min(minX, point.x);
-        minY = Math.min(minY, point.y);
-        maxX = Math.max(maxX, point.x);
-        maxY = Math.max(maxY, point.y);
-      }
-    }
-  }
-
-  // Add padding
-  const padding = 10;
-  const width = (maxX - minX + padding * 2) * params.scale;
-  const height = (maxY - minY + padding * 2) * params.scale;
+  const width = sizing.width + BASE_PADDING * 2;
+  const height = sizing.height + BASE_PADDING * 2;
 
   const geometry = new THREE.BoxGeometry(width, 5, height);
   const material = new THREE.MeshStandardMaterial({
@@ -106,8 +110,10 @@ function createBasePlate(
     metalness: 0.1,
   });
 
+  // Centre under the relief, whose SVG y axis points along +Z
+  const center = bounds.getCenter(new THREE.Vector2());
   const basePlate = new THREE.Mesh(geometry, material);
-  basePlate.position.y = 2.5; // Half of height
+  basePlate.position.set(center.x * sizing.scaleX, 2.5, center.y * sizing.scaleY); // y: half of height
 
   return basePlate;
 }
@@ -117,7 +123,8 @@ function createBasePlate(
  */
 function createRaisedRelief(
   shape: THREE.Shape,
-  params: CookieCutterParams
+  params: CookieCutterParams,
+  sizing: DesignSizing
 ): THREE.Mesh {
   const extrudeSettings: THREE.ExtrudeGeometryOptions = {
     depth: params.stampDepth,
@@ -130,15 +137,14 @@ function createRaisedRelief(
 
   const geometry = new THREE.ExtrudeGeometry(shape, extrudeSettings);
 
-  // Rotate to lie flat
-  geometry.rotateX(-Math.PI / 2);
+  // Lie flat with SVG y along +Z, as cutters do, so the face reads like the
+  // design from above. The extrusion then runs down from the face.
+  geometry.rotateX(Math.PI / 2);
 
-  // Scale
-  if (params.scale !== 1.0) {
-    geometry.scale(params.scale, params.scale, params.scale);
-  }
+  // Scale to millimetres, leaving the relief depth alone
+  geometry.scale(sizing.scaleX, 1, sizing.scaleY);
 
-  // Position on top of base (5mm base + depth)
+  // Position on top of base (5mm base + depth), the bevel sunk into it
   geometry.translate(0, 5 + params.stampDepth, 0);
 
   const material = new THREE.MeshStandardMaterial({
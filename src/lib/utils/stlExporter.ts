@@ -4,26 +4,33 @@ import type { Group } from 'three';
 import type { ExportOptions } from '../types/CookieCutter';
 
 /**
- * Export a Three.js mesh or group to STL format
+ * Export a Three.js mesh or group to STL format. Pass it through
+ * `orientForPrint` first so it arrives Z-up and flat on the bed.
  */
 export function exportToSTL(object: Mesh | Group, filename: string = 'cookie-cutter.stl', options: ExportOptions = { binary: true, includeMetadata: false }): void {
-  const exporter = new STLExporter();
-
   // Generate STL data
-  const result = exporter.parse(object, { binary: options.binary });
+  const result = serializeSTL(object, options.binary);
 
   // Create blob
-  let blob: Blob;
-  if (options.binary) {
-    blob = new Blob([result as ArrayBuffer], { type: 'application/octet-stream' });
-  } else {
-    blob = new Blob([result as string], { type: 'text/plain' });
-  }
+  const blob = new Blob([result], { type: options.binary ? 'application/octet-stream' : 'text/plain' });
 
   // Trigger download
   downloadBlob(blob, filename);
 }
 
+/**
+ * Serialize a mesh or group to binary or ASCII STL data
+ */
+export function serializeSTL(object: Mesh | Group, binary: boolean): string | Uint8Array<ArrayBuffer> {
+  const exporter = new STLExporter();
+
+  if (binary) {
+    const view = exporter.parse(object, { binary: true });
+    return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  }
+  return exporter.parse(object, { binary: false });
+}
+
 /**
  * Helper function to trigger file download
  */
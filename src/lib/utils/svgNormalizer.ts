@@ -0,0 +1,826 @@
+import { getSvgUnitSize, parseSvgLength } from './sizing';
+import type { PathPoint } from './svgPathExtractor';
+
+/**
+ * An imported SVG rewritten into plain paths
+ */
+export interface NormalizedSVG {
+  svg: string;
+  unitSize: number | null; // mm per user unit of the source, null when it declares no physical size
+  dropped: string[]; // what was left out or ignored, one note per kind
+}
+
+/**
+ * Affine transform [a, b, c, d, e, f], mapping (x, y) to
+ * (a·x + c·y + e, b·x + d·y + f) as in SVG
+ */
+type Matrix = [number, number, number, number, number, number];
+
+/**
+ * A path segment in absolute coordinates. Arcs become cubic curves.
+ */
+type Segment =
+  | { type: 'M' | 'L'; p: PathPoint }
+  | { type: 'C'; c1: PathPoint; c2: PathPoint; p: PathPoint }
+  | { type: 'Q'; c: PathPoint; p: PathPoint }
+  | { type: 'Z' };
+
+/**
+ * Resolved style properties of an element, by CSS property name
+ */
+type Style = Record<string, string>;
+
+/**
+ * A CSS rule from a `<style>` element
+ */
+interface StyleRule {
+  selector: string;
+  specificity: number;
+  order: number;
+  declarations: Style;
+}
+
+/**
+ * Why part of an SVG was left out
+ */
+type DropReason = 'hidden' | 'unpainted' | 'empty' | 'text' | 'image' | 'clipped' | 'brokenUse';
+
+/**
+ * What is carried through a walk of the document tree
+ */
+interface WalkState {
+  matrix: Matrix;
+  style: Style;
+  opacity: number;
+  using: Element[]; // `<use>` targets being expanded, to stop cycles
+}
+
+/**
+ * Shared state of one normalization
+ */
+interface NormalizeContext {
+  rules: StyleRule[];
+  ids: Map<string, Element>;
+  counts: Map<DropReason, number>;
+  unsupportedSelectors: Set<string>;
+  unsupportedTags: Map<string, number>; // elements of other kinds, by tag
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Style properties the generators read, or that decide whether an element
+ * is drawn at all
+ */
+const STYLE_PROPERTIES = [
+  'fill',
+  'fill-rule',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-miterlimit',
+  'stroke-opacity',
+  'opacity',
+  'display',
+  'visibility',
+  'color',
+];
+
+/**
+ * Style properties children do not inherit
+ */
+const NOT_INHERITED = new Set(['opacity', 'display']);
+
+/**
+ * Attributes that name an element, kept for detail classification
+ */
+const NAMING_ATTRIBUTES = ['id', 'class', 'inkscape:label', 'inkscape:groupmode'];
+
+/**
+ * Elements whose children are drawn in place
+ */
+const CONTAINER_TAGS = new Set(['g', 'a', 'switch', 'svg']);
+
+/**
+ * Elements drawn as shapes
+ */
+const SHAPE_TAGS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon']);
+
+/**
+ * Elements that are never drawn where they stand: definitions, resources
+ * and metadata
+ */
+const SILENT_TAGS = new Set([
+  'defs', 'symbol', 'clippath', 'mask', 'pattern', 'marker', 'lineargradient', 'radialgradient', 'filter',
+  'style', 'title', 'desc', 'metadata', 'script', 'sodipodi:namedview', 'namedview',
+]);
+
+/**
+ * Decimal places kept for coordinates written into the normalized SVG
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Notes for the report, by what was dropped
+ */
+const DROP_MESSAGES: Record<DropReason, (count: number) => string> = {
+  hidden: count => plural(count, 'hidden element'),
+  unpainted: count => `${plural(count, 'element')} with neither fill nor stroke`,
+  empty: count => plural(count, 'empty shape'),
+  text: count => `${plural(count, 'text element')}; convert text to paths before importing`,
+  image: count => plural(count, 'embedded image'),
+  clipped: count => `clip paths and masks on ${plural(count, 'element')}, which are imported unclipped`,
+  brokenUse: count => `${plural(count, '<use> reference')} to missing or looping elements`,
+};
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Product m·n, which applies n first
+ */
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: PathPoint): PathPoint {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+/**
+ * Parse a transform attribute into one matrix
+ */
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+
+  for (const [, name, body] of value.matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const args = body.trim().split(/[\s,]+/).map(parseFloat).filter(Number.isFinite);
+    let step: Matrix = IDENTITY;
+
+    switch (name) {
+      case 'matrix':
+        if (args.length === 6) step = args as Matrix;
+        break;
+      case 'translate':
+        step = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        step = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        step = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        step = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    matrix = multiply(matrix, step);
+  }
+
+  return matrix;
+}
+
+/**
+ * Map a viewBox into a viewport of the given size, keeping its proportions
+ * (preserveAspectRatio "meet", aligned to the top left)
+ */
+function viewBoxTransform(viewBox: string | null, width: number | null, height: number | null): Matrix {
+  const box = (viewBox || '').trim().split(/[\s,]+/).map(parseFloat);
+  if (box.length !== 4 || !(box[2] > 0) || !(box[3] > 0)) return IDENTITY;
+
+  const scale = Math.min(
+    width !== null && width > 0 ? width / box[2] : Infinity,
+    height !== null && height > 0 ? height / box[3] : Infinity
+  );
+  const s = Number.isFinite(scale) ? scale : 1;
+  return [s, 0, 0, s, -box[0] * s, -box[1] * s];
+}
+
+/**
+ * Plain number of a length attribute, ignoring units
+ */
+function numberAttribute(element: Element, name: string, fallback = 0): number {
+  const value = parseFloat(element.getAttribute(name) ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Convert an elliptical arc into cubic curves of at most a quarter turn
+ * each (SVG implementation notes, F.6)
+ */
+function arcToCubics(
+  from: PathPoint,
+  rx: number,
+  ry: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: PathPoint
+): Segment[] {
+  if (from.x === to.x && from.y === to.y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ type: 'L', p: to }];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point grow until they do
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1) / ry;
+  const cyp = (-coefficient * ry * x1) / rx;
+  const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+  const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+  let delta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const map = (ux: number, uy: number): PathPoint => ({
+    x: cx + rx * ux * cos - ry * uy * sin,
+    y: cy + rx * ux * sin + ry * uy * cos,
+  });
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    segments.push({
+      type: 'C',
+      c1: map(Math.cos(t1) - k * Math.sin(t1), Math.sin(t1) + k * Math.cos(t1)),
+      c2: map(Math.cos(t2) + k * Math.sin(t2), Math.sin(t2) - k * Math.cos(t2)),
+      p: i === count - 1 ? to : map(Math.cos(t2), Math.sin(t2)),
+    });
+  }
+  return segments;
+}
+
+/**
+ * Parse path data into absolute segments. Data after an error is ignored,
+ * as SVG renderers do.
+ */
+function parsePathData(d: string): Segment[] {
+  const segments: Segment[] = [];
+  const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+  let i = 0;
+
+  const skip = () => {
+    while (i < d.length && /[\s,]/.test(d[i])) i++;
+  };
+  const number = (): number => {
+    skip();
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(d);
+    if (!match) throw new RangeError('Bad path data');
+    i = NUMBER.lastIndex;
+    return parseFloat(match[0]);
+  };
+  const flag = (): boolean => {
+    skip();
+    if (d[i] !== '0' && d[i] !== '1') throw new RangeError('Bad path data');
+    return d[i++] === '1';
+  };
+
+  let command = '';
+  let current: PathPoint = { x: 0, y: 0 };
+  let start = current;
+  let control: PathPoint | null = null; // last control point, for smooth curves
+  let previous = '';
+
+  try {
+    for (;;) {
+      skip();
+      if (i >= d.length) break;
+      if (/[a-zA-Z]/.test(d[i])) {
+        command = d[i++];
+      } else if (!command || command === 'Z' || command === 'z') {
+        break;
+      }
+
+      const upper = command.toUpperCase();
+      const base = command === upper ? { x: 0, y: 0 } : current;
+      const point = (): PathPoint => {
+        const x = number();
+        const y = number();
+        return { x: x + base.x, y: y + base.y };
+      };
+      const reflected = (types: string) =>
+        control && types.includes(previous) ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current;
+
+      let next: PathPoint | null = control;
+      switch (upper) {
+        case 'M':
+          current = start = point();
+          segments.push({ type: 'M', p: current });
+          command = command === 'm' ? 'l' : 'L';
+          break;
+        case 'L':
+          current = point();
+          segments.push({ type: 'L', p: current });
+          break;
+        case 'H':
+          current = { x: number() + base.x, y: current.y };
+          segments.push({ type: 'L', p: current });
+          break;
+        case 'V':
+          current = { x: current.x, y: number() + base.y };
+          segments.push({ type: 'L', p: current });
+          break;
+        case 'C':
+        case 'S': {
+          const c1 = upper === 'C' ? point() : reflected('CS');
+          const c2 = point();
+          current = point();
+          segments.push({ type: 'C', c1, c2, p: current });
+          next = c2;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          const c = upper === 'Q' ? point() : reflected('QT');
+          current = point();
+          segments.push({ type: 'Q', c, p: current });
+          next = c;
+          break;
+        }
+        case 'A': {
+          const rx = number();
+          const ry = number();
+          const rotation = number();
+          const largeArc = flag();
+          const sweep = flag();
+          const to = point();
+          segments.push(...arcToCubics(current, rx, ry, rotation, largeArc, sweep, to));
+          current = to;
+          break;
+        }
+        case 'Z':
+          segments.push({ type: 'Z' });
+          current = start;
+          break;
+        default:
+          throw new RangeError('Bad path data');
+      }
+
+      control = next;
+      previous = upper;
+    }
+  } catch (err) {
+    if (!(err instanceof RangeError)) throw err;
+  }
+
+  return segments;
+}
+
+/**
+ * Path data of a basic shape, or null when the element draws nothing
+ */
+function shapeToPathData(element: Element, tag: string): string | null {
+  switch (tag) {
+    case 'path':
+      return element.getAttribute('d');
+    case 'rect': {
+      const [x, y, w, h] = ['x', 'y', 'width', 'height'].map(name => numberAttribute(element, name));
+      if (!(w > 0) || !(h > 0)) return null;
+
+      const rxValue = element.getAttribute('rx');
+      const ryValue = element.getAttribute('ry');
+      const rx = Math.min(w / 2, Math.max(0, numberAttribute(element, 'rx', numberAttribute(element, 'ry'))));
+      const ry = Math.min(h / 2, Math.max(0, numberAttribute(element, 'ry', numberAttribute(element, 'rx'))));
+      if (!(rxValue || ryValue) || rx === 0 || ry === 0) {
+        return `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+      }
+      const arc = `A ${rx} ${ry} 0 0 1`;
+      return `M ${x + rx} ${y} H ${x + w - rx} ${arc} ${x + w} ${y + ry} V ${y + h - ry} ` +
+        `${arc} ${x + w - rx} ${y + h} H ${x + rx} ${arc} ${x} ${y + h - ry} V ${y + ry} ${arc} ${x + rx} ${y} Z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = numberAttribute(element, 'cx');
+      const cy = numberAttribute(element, 'cy');
+      const rx = tag === 'circle' ? numberAttribute(element, 'r') : numberAttribute(element, 'rx', numberAttribute(element, 'ry'));
+      const ry = tag === 'circle' ? rx : numberAttribute(element, 'ry', rx);
+      if (!(rx > 0) || !(ry > 0)) return null;
+      return `M ${cx + rx} ${cy} A ${rx} ${ry} 0 1 1 ${cx - rx} ${cy} A ${rx} ${ry} 0 1 1 ${cx + rx} ${cy} Z`;
+    }
+    case 'line':
+      return `M ${numberAttribute(element, 'x1')} ${numberAttribute(element, 'y1')} L ${numberAttribute(element, 'x2')} ${numberAttribute(element, 'y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const values = (element.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(parseFloat);
+      const points: string[] = [];
+      for (let i = 0; i + 1 < values.length && Number.isFinite(values[i + 1]); i += 2) {
+        points.push(`${values[i]} ${values[i + 1]}`);
+      }
+      if (points.length < 2) return null;
+      return `M ${points.join(' L ')}${tag === 'polygon' ? ' Z' : ''}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Write segments as path data after transforming them
+ */
+function segmentsToPathData(segments: Segment[], matrix: Matrix): string {
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  const write = (p: PathPoint) => {
+    const q = apply(matrix, p);
+    return `${round(q.x)} ${round(q.y)}`;
+  };
+
+  return segments.map(segment => {
+    switch (segment.type) {
+      case 'M':
+      case 'L':
+        return `${segment.type} ${write(segment.p)}`;
+      case 'C':
+        return `C ${write(segment.c1)} ${write(segment.c2)} ${write(segment.p)}`;
+      case 'Q':
+        return `Q ${write(segment.c)} ${write(segment.p)}`;
+      case 'Z':
+        return 'Z';
+    }
+  }).join(' ');
+}
+
+/**
+ * Parse `property: value` declarations, keeping the style properties
+ */
+function parseDeclarations(text: string | null): Style {
+  const style: Style = {};
+  for (const declaration of (text ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon < 0) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+    if (STYLE_PROPERTIES.includes(property) && value) style[property] = value;
+  }
+  return style;
+}
+
+/**
+ * Specificity of a selector as one comparable number
+ */
+function specificity(selector: string): number {
+  const ids = selector.match(/#[\w-]+/g)?.length ?? 0;
+  const classes = selector.match(/\.[\w-]+|\[[^\]]*\]|:(?!:)[\w-]+/g)?.length ?? 0;
+  const types = selector
+    .replace(/#[\w-]+|\.[\w-]+|\[[^\]]*\]|::?[\w-]+(?:\([^)]*\))?/g, ' ')
+    .match(/[a-zA-Z][\w-]*/g)?.length ?? 0;
+  return ids * 10000 + classes * 100 + types;
+}
+
+/**
+ * Rules of every `<style>` element, lowest precedence first. At-rules such
+ * as `@media` and `@font-face` are skipped.
+ */
+function parseStyleRules(document: Document): StyleRule[] {
+  const rules: StyleRule[] = [];
+  const css = Array.from(document.getElementsByTagName('style'))
+    .map(element => element.textContent ?? '')
+    .join('\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '');
+
+  let depth = 0;
+  let blockStart = 0;
+  let prelude = '';
+  for (let i = 0; i < css.length; i++) {
+    if (css[i] === '{') {
+      if (depth === 0) {
+        prelude = css.slice(blockStart, i).trim();
+        blockStart = i + 1;
+      }
+      depth++;
+    } else if (css[i] === '}' && depth > 0) {
+      depth--;
+      if (depth > 0) continue;
+
+      if (!prelude.startsWith('@')) {
+        const declarations = parseDeclarations(css.slice(blockStart, i));
+        for (const selector of prelude.split(',').map(s => s.trim()).filter(Boolean)) {
+          rules.push({ selector, specificity: specificity(selector), order: rules.length, declarations });
+        }
+      }
+      blockStart = i + 1;
+    } else if (css[i] === ';' && depth === 0) {
+      // Statement at-rules such as @import
+      blockStart = i + 1;
+    }
+  }
+
+  return rules.sort((a, b) => a.specificity - b.specificity || a.order - b.order);
+}
+
+/**
+ * Style of an element: presentation attributes, then CSS rules, then its
+ * style attribute, over what it inherits
+ */
+function computeStyle(element: Element, inherited: Style, context: NormalizeContext): Style {
+  const own: Style = {};
+  for (const property of STYLE_PROPERTIES) {
+    const value = element.getAttribute(property);
+    if (value !== null && value.trim()) own[property] = value.trim();
+  }
+
+  for (const rule of context.rules) {
+    if (context.unsupportedSelectors.has(rule.selector)) continue;
+    try {
+      if (element.matches(rule.selector)) Object.assign(own, rule.declarations);
+    } catch {
+      context.unsupportedSelectors.add(rule.selector);
+    }
+  }
+  Object.assign(own, parseDeclarations(element.getAttribute('style')));
+
+  const style: Style = {};
+  for (const property of STYLE_PROPERTIES) {
+    if (!NOT_INHERITED.has(property) && inherited[property] !== undefined) {
+      style[property] = inherited[property];
+    }
+  }
+  for (const [property, value] of Object.entries(own)) {
+    if (value !== 'inherit') {
+      style[property] = value;
+    } else if (inherited[property] !== undefined) {
+      style[property] = inherited[property];
+    }
+  }
+  return style;
+}
+
+/**
+ * A paint as a plain color, or null for none. Gradients and patterns paint
+ * with their first stop color, or black.
+ */
+function resolvePaint(value: string | undefined, style: Style, context: NormalizeContext): string | null {
+  if (!value || value === 'none' || value === 'transparent') return null;
+  if (value === 'currentColor') return style.color ?? 'black';
+
+  const reference = value.match(/^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/);
+  if (!reference) return value;
+
+  const target = context.ids.get(reference[1]);
+  if (!target) {
+    // A missing paint server falls back to the color after the url
+    return reference[2] && reference[2] !== 'none' ? reference[2] : null;
+  }
+  const stop = target.getElementsByTagName('stop')[0];
+  const color = stop && (parseDeclarations(stop.getAttribute('style'))['stop-color'] ?? stop.getAttribute('stop-color'));
+  return color || 'black';
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * The naming attributes of an element, written out
+ */
+function namingAttributes(element: Element): string {
+  return NAMING_ATTRIBUTES
+    .map(name => [name, element.getAttribute(name)] as const)
+    .filter(([, value]) => value)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value!)}"`)
+    .join('');
+}
+
+function drop(context: NormalizeContext, reason: DropReason): void {
+  context.counts.set(reason, (context.counts.get(reason) ?? 0) + 1);
+}
+
+/**
+ * Write an element and its children as plain groups and paths
+ */
+function walk(element: Element, state: WalkState, context: NormalizeContext, out: string[], indent: string): void {
+  const tag = element.tagName.toLowerCase();
+  if (SILENT_TAGS.has(tag)) return;
+
+  const style = computeStyle(element, state.style, context);
+  const opacity = state.opacity * Math.min(1, Math.max(0, parseFloat(style.opacity ?? '1') || 0));
+  if (style.display === 'none' || style.visibility === 'hidden' || style.visibility === 'collapse' || opacity === 0) {
+    drop(context, 'hidden');
+    return;
+  }
+  if (element.getAttribute('clip-path') || element.getAttribute('mask')) {
+    drop(context, 'clipped');
+  }
+
+  let matrix = multiply(state.matrix, parseTransform(element.getAttribute('transform')));
+  const next = (m: Matrix, using = state.using): WalkState => ({ matrix: m, style, opacity, using });
+
+  if (CONTAINER_TAGS.has(tag)) {
+    if (tag === 'svg') {
+      // A nested viewport
+      matrix = multiply(matrix, [1, 0, 0, 1, numberAttribute(element, 'x'), numberAttribute(element, 'y')]);
+      matrix = multiply(matrix, viewBoxTransform(
+        element.getAttribute('viewBox'),
+        element.hasAttribute('width') ? numberAttribute(element, 'width') : null,
+        element.hasAttribute('height') ? numberAttribute(element, 'height') : null
+      ));
+    }
+
+    const children: string[] = [];
+    for (const child of Array.from(element.children)) {
+      walk(child, next(matrix), context, children, indent + '  ');
+    }
+    if (children.length > 0) {
+      out.push(`${indent}<g${namingAttributes(element)}>`, ...children, `${indent}</g>`);
+    }
+    return;
+  }
+
+  if (tag === 'use') {
+    const href = element.getAttribute('href') ?? element.getAttribute('xlink:href') ?? '';
+    const target = href.startsWith('#') ? context.ids.get(href.slice(1)) : undefined;
+    if (!target || state.using.includes(target)) {
+      drop(context, 'brokenUse');
+      return;
+    }
+
+    matrix = multiply(matrix, [1, 0, 0, 1, numberAttribute(element, 'x'), numberAttribute(element, 'y')]);
+    const children: string[] = [];
+    const using = [...state.using, target];
+    if (target.tagName.toLowerCase() === 'symbol') {
+      matrix = multiply(matrix, viewBoxTransform(
+        target.getAttribute('viewBox'),
+        element.hasAttribute('width') ? numberAttribute(element, 'width') : null,
+        element.hasAttribute('height') ? numberAttribute(element, 'height') : null
+      ));
+      const symbolStyle = computeStyle(target, style, context);
+      for (const child of Array.from(target.children)) {
+        walk(child, { ...next(matrix, using), style: symbolStyle }, context, children, indent + '  ');
+      }
+    } else {
+      walk(target, next(matrix, using), context, children, indent + '  ');
+    }
+    if (children.length > 0) {
+      out.push(`${indent}<g${namingAttributes(element)}>`, ...children, `${indent}</g>`);
+    }
+    return;
+  }
+
+  if (tag === 'text' || tag === 'tspan' || tag === 'textpath') {
+    drop(context, 'text');
+    return;
+  }
+  if (tag === 'image' || tag === 'foreignobject') {
+    drop(context, 'image');
+    return;
+  }
+  if (!SHAPE_TAGS.has(tag)) {
+    context.unsupportedTags.set(tag, (context.unsupportedTags.get(tag) ?? 0) + 1);
+    return;
+  }
+
+  const fillOpacity = parseFloat(style['fill-opacity'] ?? '1');
+  const strokeOpacity = parseFloat(style['stroke-opacity'] ?? '1');
+  const strokeWidth = parseFloat(style['stroke-width'] ?? '1');
+  const fill = fillOpacity === 0 ? null : resolvePaint(style.fill ?? 'black', style, context);
+  const stroke = strokeOpacity === 0 || !(strokeWidth > 0) ? null : resolvePaint(style.stroke, style, context);
+  if (!fill && !stroke) {
+    drop(context, 'unpainted');
+    return;
+  }
+
+  const segments = parsePathData(shapeToPathData(element, tag) ?? '');
+  if (!segments.some(segment => segment.type !== 'M' && segment.type !== 'Z')) {
+    drop(context, 'empty');
+    return;
+  }
+
+  const attributes = [` d="${segmentsToPathData(segments, matrix)}"`, ` fill="${escapeAttribute(fill ?? 'none')}"`];
+  if (fill && style['fill-rule']) attributes.push(` fill-rule="${escapeAttribute(style['fill-rule'])}"`);
+  if (stroke) {
+    // Strokes scale with the area of the transform
+    const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+    attributes.push(
+      ` stroke="${escapeAttribute(stroke)}"`,
+      ` stroke-width="${+(strokeWidth * scale).toFixed(COORDINATE_PRECISION)}"`
+    );
+    for (const property of ['stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit']) {
+      if (style[property]) attributes.push(` ${property}="${escapeAttribute(style[property])}"`);
+    }
+  }
+
+  out.push(`${indent}<path${namingAttributes(element)}${attributes.join('')}/>`);
+}
+
+/**
+ * Rewrite an imported SVG into plain paths the generators read the same
+ * way a browser draws it.
+ *
+ * Transforms, nested viewports and `<use>` references are baked into the
+ * path coordinates, and CSS rules from `<style>` elements are resolved into
+ * fill and stroke attributes on each path. Arcs and basic shapes become
+ * path data. Groups are kept, with their ids and layer names, so the detail
+ * modes still recognise them.
+ *
+ * When the SVG declares a physical size, coordinates are converted to
+ * millimetres (unitless and px sizes at `dpi`). Otherwise its user units
+ * are kept, which the generators read as millimetres.
+ *
+ * Hidden and unpainted elements, text and images are left out, and clip
+ * paths and masks are ignored; `dropped` lists each of them.
+ */
+export function normalizeSVG(svgString: string, dpi: number): NormalizedSVG {
+  const document = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+  const root = document.documentElement;
+  if (!root || root.tagName.toLowerCase() !== 'svg' || document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid SVG: the file could not be parsed');
+  }
+
+  const ids = new Map<string, Element>();
+  for (const element of Array.from(document.querySelectorAll('[id]'))) {
+    if (!ids.has(element.getAttribute('id')!)) ids.set(element.getAttribute('id')!, element);
+  }
+  const context: NormalizeContext = {
+    rules: parseStyleRules(document),
+    ids,
+    counts: new Map(),
+    unsupportedSelectors: new Set(),
+    unsupportedTags: new Map(),
+  };
+
+  // Map the root viewBox to millimetres when the SVG has a physical size
+  const unitSize = getSvgUnitSize(svgString, dpi);
+  const viewBox = root.getAttribute('viewBox');
+  const box = (viewBox || '').trim().split(/[\s,]+/).map(parseFloat);
+  const hasViewBox = box.length === 4 && box[2] > 0 && box[3] > 0;
+  let matrix = IDENTITY;
+  let header = '<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"';
+
+  if (unitSize !== null) {
+    const width = hasViewBox ? box[2] * unitSize : parseSvgLength(root.getAttribute('width'), dpi);
+    const height = hasViewBox ? box[3] * unitSize : parseSvgLength(root.getAttribute('height'), dpi);
+    matrix = hasViewBox
+      ? [unitSize, 0, 0, unitSize, -box[0] * unitSize, -box[1] * unitSize]
+      : [unitSize, 0, 0, unitSize, 0, 0];
+    if (width !== null && height !== null) {
+      const w = +width.toFixed(COORDINATE_PRECISION);
+      const h = +height.toFixed(COORDINATE_PRECISION);
+      header += ` width="${w}mm" height="${h}mm" viewBox="0 0 ${w} ${h}"`;
+    }
+  } else if (hasViewBox) {
+    header += ` viewBox="${box.join(' ')}"`;
+  }
+
+  const rootStyle = computeStyle(root, {}, context);
+  matrix = multiply(matrix, parseTransform(root.getAttribute('transform')));
+  const body: string[] = [];
+  for (const child of Array.from(root.children)) {
+    walk(child, { matrix, style: rootStyle, opacity: 1, using: [] }, context, body, '  ');
+  }
+
+  const dropped = [
+    ...Array.from(context.counts, ([reason, count]) => DROP_MESSAGES[reason](count)),
+    ...Array.from(context.unsupportedTags, ([tag, count]) => plural(count, `unsupported <${tag}> element`)),
+  ];
+  if (context.unsupportedSelectors.size > 0) {
+    dropped.push(`CSS rules with unsupported selectors: ${Array.from(context.unsupportedSelectors).join(', ')}`);
+  }
+
+  if (body.length === 0) {
+    throw new Error(`No visible shapes found in SVG${dropped.length > 0 ? ` (left out: ${dropped.join('; ')})` : ''}`);
+  }
+
+  return { svg: `${header}>\n${body.join('\n')}\n</svg>`, unitSize, dropped };
+}
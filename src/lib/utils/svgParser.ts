@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import { SVGLoader, type SVGResultPaths } from 'three/examples/jsm/loaders/SVGLoader.js';
+
+/**
+ * A parsed SVG path as plain data that can be posted to a worker
+ */
+export interface SerializedSVGPath {
+  color: number;
+  style: Record<string, unknown>;
+  lineage: Record<string, string | null>[]; // naming attributes of the element and its ancestors
+  subPaths: ReturnType<THREE.Path['toJSON']>[];
+}
+
+/**
+ * An SVG source together with its parsed paths
+ */
+export interface SerializedSVG {
+  source: string;
+  paths: SerializedSVGPath[];
+}
+
+/**
+ * Attributes kept from each element for detail classification
+ */
+const LINEAGE_ATTRIBUTES = ['id', 'class', 'inkscape:label'];
+
+/**
+ * Number of parsed SVGs kept for regenerations with new parameters
+ */
+const CACHE_SIZE = 8;
+
+const parsedCache = new Map<string, SVGResultPaths[]>();
+
+/**
+ * Sources a running task still needs, with the number of tasks holding each.
+ * Held entries are never evicted.
+ */
+const heldSources = new Map<string, number>();
+
+/**
+ * Parse the paths of an SVG, reusing earlier results for the same source
+ */
+export function parseSVGPaths(svgString: string): SVGResultPaths[] {
+  let paths = parsedCache.get(svgString);
+  if (!paths) {
+    paths = new SVGLoader().parse(svgString).paths;
+    cacheSVGPaths(svgString, paths);
+  }
+  return paths;
+}
+
+/**
+ * Store parsed paths for an SVG source. Workers have no DOMParser, so they
+ * get SVGs parsed on the main thread and cache them before generating.
+ */
+export function cacheSVGPaths(svgString: string, paths: SVGResultPaths[]): void {
+  parsedCache.delete(svgString);
+  parsedCache.set(svgString, paths);
+  trimCache();
+}
+
+/**
+ * Drop the least recently cached entries over `CACHE_SIZE`, skipping held
+ * ones. While tasks hold more sources than that, the cache grows to fit.
+ */
+function trimCache(): void {
+  for (const source of parsedCache.keys()) {
+    if (parsedCache.size <= CACHE_SIZE) break;
+    if (!heldSources.has(source)) parsedCache.delete(source);
+  }
+}
+
+/**
+ * Keep the parsed paths of some SVG sources cached until the returned
+ * release function is called. A task that caches several SVGs up front holds
+ * them so caching the later ones can't evict the earlier ones before use.
+ */
+export function holdSVGPaths(sources: string[]): () => void {
+  for (const source of sources) {
+    heldSources.set(source, (heldSources.get(source) ?? 0) + 1);
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    for (const source of sources) {
+      const count = heldSources.get(source)! - 1;
+      if (count > 0) heldSources.set(source, count);
+      else heldSources.delete(source);
+    }
+    trimCache();
+  };
+}
+
+/**
+ * Parse an SVG on the main thread into data a worker can rebuild
+ */
+export function serializeSVG(svgString: string): SerializedSVG {
+  const paths = parseSVGPaths(svgString).map(path => {
+    const lineage: Record<string, string | null>[] = [];
+    for (let node: Element | null = path.userData?.node ?? null; node; node = node.parentElement) {
+      lineage.push(Object.fromEntries(LINEAGE_ATTRIBUTES.map(name => [name, node!.getAttribute(name)])));
+    }
+
+    return {
+      color: path.color.getHex(),
+      style: { ...path.userData?.style },
+      lineage,
+      subPaths: path.subPaths.map(subPath => subPath.toJSON()),
+    };
+  });
+
+  return { source: svgString, paths };
+}
+
+/**
+ * Rebuild parsed SVG paths from serialized data and cache them under the
+ * source. Elements are replaced by stand-ins that answer `getAttribute`
+ * and `parentElement` for the recorded attributes.
+ */
+export function deserializeSVG(svg: SerializedSVG): SVGResultPaths[] {
+  const paths = svg.paths.map(data => {
+    const path: SVGResultPaths = new THREE.ShapePath();
+    path.color.setHex(data.color);
+    path.subPaths = data.subPaths.map(json => new THREE.Path().fromJSON(json));
+
+    let node: Element | null = null;
+    for (const attributes of [...data.lineage].reverse()) {
+      node = {
+        getAttribute: (name: string) => attributes[name] ?? null,
+        parentElement: node,
+      } as unknown as Element;
+    }
+    path.userData = { style: data.style, node };
+
+    return path;
+  });
+
+  cacheSVGPaths(svg.source, paths);
+  return paths;
+}
@@ -1,5 +1,7 @@
 import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
 import * as THREE from 'three';
+import type { Path2D } from '../types/CookieCutter';
+import { isStrokeOnly, getStrokeLines } from './svgStrokes';
 
 export interface PathPoint {
   x: number;
@@ -7,15 +9,23 @@ export interface PathPoint {
 }
 
 /**
- * Extract points from SVG string
+ * Extract the paths of an SVG as polylines. Filled shapes come back as
+ * closed outlines and holes; stroke-only paths as their lines, which keep
+ * their open ends.
  */
-export function extractPathsFromSVG(svgString: string): PathPoint[][] {
+export function extractPathsFromSVG(svgString: string): Path2D[] {
   const loader = new SVGLoader();
   const svgData = loader.parse(svgString);
 
-  const allPaths: PathPoint[][] = [];
+  const allPaths: Path2D[] = [];
+  const toPoints = (points: THREE.Vector2[]) => points.map(p => ({ x: p.x, y: p.y }));
 
   for (const path of svgData.paths) {
+    if (isStrokeOnly(path)) {
+      allPaths.push(...getStrokeLines(path));
+      continue;
+    }
+
     const shapes = SVGLoader.createShapes(path);
 
     for (const shape of shapes) {
@@ -23,12 +33,7 @@ export function extractPathsFromSVG(svgString: string): PathPoint[][] {
       const points = shape.getPoints();
 
       if (points.length > 0) {
-        allPaths.push(
-          points.map(p => ({
-            x: p.x,
-            y: p.y
-          }))
-        );
+        allPaths.push({ points: toPoints(points), closed: true });
       }
 
       // Also get holes if any
@@ -36,12 +41,7 @@ export function extractPathsFromSVG(svgString: string): PathPoint[][] {
       for (const hole of holes) {
         const holePoints = hole.getPoints();
         if (holePoints.length > 0) {
-          allPaths.push(
-            holePoints.map(p => ({
-              x: p.x,
-              y: p.y
-            }))
-          );
+          allPaths.push({ points: toPoints(holePoints), closed: true });
         }
       }
     }
@@ -51,26 +51,40 @@ export function extractPathsFromSVG(svgString: string): PathPoint[][] {
 }
 
 /**
- * Convert paths back to SVG string
+ * Convert a polyline to SVG path data, closed unless `closed` is false
  */
-export function pathsToSVG(paths: PathPoint[][], viewBoxSize: { width: number; height: number } = { width: 100, height: 100 }): string {
-  const pathStrings = paths.map(points => {
-    if (points.length === 0) return '';
+export function pathToSVGData(points: PathPoint[], closed: boolean = true): string {
+  if (points.length === 0) return '';
 
-    let d = `M ${points[0].x} ${points[0].y}`;
+  let d = `M ${points[0].x} ${points[0].y}`;
 
-    for (let i = 1; i < points.length; i++) {
-      d += ` L ${points[i].x} ${points[i].y}`;
-    }
+  for (let i = 1; i < points.length; i++) {
+    d += ` L ${points[i].x} ${points[i].y}`;
+  }
 
+  if (closed) {
     d += ' Z'; // Close path
+  }
 
-    return d;
-  });
+  return d;
+}
 
-  const pathElements = pathStrings
-    .filter(d => d)
-    .map(d => `  <path d="${d}" fill="black"/>`)
+/**
+ * Convert paths back to SVG string. Closed paths and bare point lists are
+ * filled; open paths are stroked lines of `strokeWidth`.
+ */
+export function pathsToSVG(
+  paths: (PathPoint[] | Path2D)[],
+  viewBoxSize: { width: number; height: number } = { width: 100, height: 100 },
+  strokeWidth: number = 1
+): string {
+  const pathElements = paths
+    .map(path => Array.isArray(path) ? { points: path, closed: true } : path)
+    .filter(path => path.points.length > 0)
+    .map(({ points, closed }) => closed
+      ? `  <path d="${pathToSVGData(points)}" fill="black"/>`
+      : `  <path d="${pathToSVGData(points, false)}" fill="none" stroke="black" stroke-width="${strokeWidth}" ` +
+        `stroke-linecap="round" stroke-linejoin="round"/>`)
     .join('\n');
 
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${viewBoxSize.width} ${viewBoxSize.height}">
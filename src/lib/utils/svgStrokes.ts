@@ -0,0 +1,165 @@
+import * as THREE from 'three';
+import { SVGLoader, type SVGResultPaths } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { offsetPath, offsetOpenPath, differencePaths, unionPaths, pathArea, isPointInPath } from './pathOperations';
+import type { PathPoint } from './svgPathExtractor';
+
+/**
+ * A subpath of a stroke, with its open ends or closed
+ */
+export interface StrokeLine {
+  points: PathPoint[];
+  closed: boolean;
+}
+
+/**
+ * Area (in square user units) below which a filled subpath covers nothing
+ */
+const EMPTY_FILL_AREA = 1e-6;
+
+/**
+ * Width SVG gives strokes without a stroke-width, in user units
+ */
+const DEFAULT_STROKE_WIDTH = 1;
+
+/**
+ * Clipper joins for SVG line joins. Clipper has no bevel join; its square
+ * join cuts corners off the same way.
+ */
+const JOIN_TYPES: Record<string, 'miter' | 'round' | 'square'> = {
+  miter: 'miter',
+  'miter-clip': 'miter',
+  arcs: 'round',
+  round: 'round',
+  bevel: 'square',
+};
+
+/**
+ * Clipper ends for SVG line caps
+ */
+const END_TYPES: Record<string, 'round' | 'butt' | 'square'> = {
+  butt: 'butt',
+  round: 'round',
+  square: 'square',
+};
+
+/**
+ * Check whether a path has a stroke at all
+ */
+function hasStroke(path: SVGResultPaths): boolean {
+  const stroke = path.userData?.style?.stroke;
+  return !!stroke && stroke !== 'none';
+}
+
+/**
+ * Check whether a path is drawn with a stroke only: it has a stroke and no
+ * fill, or a fill that covers nothing, as on `<line>` elements
+ */
+export function isStrokeOnly(path: SVGResultPaths): boolean {
+  if (!hasStroke(path)) return false;
+  if (path.userData?.style?.fill === 'none') return true;
+
+  return path.subPaths.every(subPath => Math.abs(pathArea(subPath.getPoints())) < EMPTY_FILL_AREA);
+}
+
+/**
+ * Subpaths of a stroked path. Subpaths closed with Z, or ending where they
+ * start, come back closed.
+ */
+export function getStrokeLines(path: SVGResultPaths): StrokeLine[] {
+  return path.subPaths
+    .map(subPath => {
+      const points = subPath.getPoints().map(p => ({ x: p.x, y: p.y }));
+      const first = points[0];
+      const last = points[points.length - 1];
+      const joined = points.length > 2 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-9;
+      return { points: joined ? points.slice(0, -1) : points, closed: subPath.autoClose || joined };
+    })
+    .filter(line => line.points.length >= 2);
+}
+
+/**
+ * Stroke width of a path, in user units
+ */
+export function getStrokeWidth(path: SVGResultPaths): number {
+  const width = Number(path.userData?.style?.strokeWidth);
+  return Number.isFinite(width) ? width : DEFAULT_STROKE_WIDTH;
+}
+
+/**
+ * Outline of a path's stroke as closed rings, with the path's width, line
+ * joins and line caps. Closed subpaths become bands; open ones keep their
+ * caps. Overlapping subpaths are merged.
+ */
+export async function expandStroke(path: SVGResultPaths): Promise<PathPoint[][]> {
+  const width = getStrokeWidth(path);
+  if (width <= 0) return [];
+
+  const style = path.userData?.style ?? {};
+  const join = JOIN_TYPES[style.strokeLineJoin] ?? 'miter';
+  const end = END_TYPES[style.strokeLineCap] ?? 'butt';
+
+  const rings: PathPoint[][] = [];
+  for (const { points, closed } of getStrokeLines(path)) {
+    if (closed && points.length >= 3) {
+      const outside = await offsetPath(points, width / 2, join);
+      const inside = await offsetPath(points, -width / 2, join);
+      rings.push(...await differencePaths(outside, inside));
+    } else {
+      rings.push(...await offsetOpenPath(points, width, join, end));
+    }
+  }
+
+  return rings.length > 0 ? unionPaths(rings) : [];
+}
+
+/**
+ * Group closed rings into shapes with holes. A ring inside an odd number
+ * of others is a hole of the smallest shape around it.
+ */
+export function ringsToShapes(rings: PathPoint[][]): THREE.Shape[] {
+  const sorted = rings
+    .filter(ring => ring.length >= 3)
+    .map(ring => ({ ring, area: Math.abs(pathArea(ring)) }))
+    .sort((a, b) => b.area - a.area);
+
+  const outers: { ring: PathPoint[]; shape: THREE.Shape }[] = [];
+  for (const [i, { ring }] of sorted.entries()) {
+    const around = sorted.slice(0, i).filter(other => isPointInPath(ring[0], other.ring));
+    const points = ring.map(p => new THREE.Vector2(p.x, p.y));
+
+    if (around.length % 2 === 0) {
+      outers.push({ ring, shape: new THREE.Shape(points) });
+      continue;
+    }
+
+    // Larger rings come first, so the last outer around the hole is the smallest
+    const owner = outers.filter(outer => around.some(other => other.ring === outer.ring)).pop();
+    owner?.shape.holes.push(new THREE.Path(points));
+  }
+
+  return outers.map(outer => outer.shape);
+}
+
+/**
+ * Filled shapes of a parsed path: fills as SVGLoader reads them, strokes
+ * expanded to their width. A path both filled and stroked covers the union
+ * of the two, so half its stroke width shows outside the fill.
+ */
+export async function getPathShapes(path: SVGResultPaths): Promise<THREE.Shape[]> {
+  if (isStrokeOnly(path)) return ringsToShapes(await expandStroke(path));
+
+  const fills = SVGLoader.createShapes(path);
+  const stroke = hasStroke(path) ? await expandStroke(path) : [];
+  if (stroke.length === 0) return fills;
+
+  // Run each fill through Clipper first: its holes cut out, and its rings
+  // wound the way the stroke's are, so overlaps add up instead of cancelling
+  const fillRings: PathPoint[][] = [];
+  for (const shape of fills) {
+    const outer = shape.getPoints().map(p => ({ x: p.x, y: p.y }));
+    const holes = shape.holes.map(hole => hole.getPoints().map(p => ({ x: p.x, y: p.y })));
+    fillRings.push(...await (holes.length > 0 ? differencePaths([outer], holes) : unionPaths([outer])));
+  }
+
+  return ringsToShapes(await unionPaths([...fillRings, ...stroke]));
+}
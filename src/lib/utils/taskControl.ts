@@ -0,0 +1,60 @@
+/**
+ * Progress reporting and cancellation for long-running geometry tasks
+ */
+export interface TaskOptions {
+  onProgress?: (progress: number, message?: string) => void; // progress from 0 to 1
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown from a checkpoint once the task's signal has been aborted
+ */
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Task was cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Longest stretch a cancellable task runs before handing control back to
+ * the event loop, so cancel messages get through, in ms
+ */
+const YIELD_INTERVAL = 50;
+
+let lastYield = 0;
+
+/**
+ * Report progress and stop if the task was cancelled.
+ *
+ * Cancellable tasks also yield to the event loop every `YIELD_INTERVAL`,
+ * since Clipper calls resolve as microtasks and would otherwise keep
+ * messages and UI events waiting until the task is done.
+ */
+export async function checkpoint(options: TaskOptions, progress: number, message?: string): Promise<void> {
+  options.onProgress?.(Math.min(1, Math.max(0, progress)), message);
+
+  if (!options.signal) return;
+
+  const now = performance.now();
+  if (now - lastYield > YIELD_INTERVAL) {
+    lastYield = now;
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  if (options.signal.aborted) {
+    throw new TaskCancelledError();
+  }
+}
+
+/**
+ * Options for a sub-task that covers the `start`..`end` share of the
+ * parent task's progress
+ */
+export function subTask(options: TaskOptions, start: number, end: number): TaskOptions {
+  const { onProgress, signal } = options;
+  return {
+    signal,
+    onProgress: onProgress && ((progress, message) => onProgress(start + (end - start) * progress, message)),
+  };
+}
@@ -0,0 +1,304 @@
+import type { CookieCutterParams } from '../types/CookieCutter';
+import type { GlyphCommand, GlyphOutline, TextFont } from './fontLoader';
+import { getPathsBounds, type PathPoint } from './svgPathExtractor';
+
+export interface TextOutlineOptions {
+  text: string;
+  letterHeight: number; // height of capital letters in mm
+  letterSpacing: number; // extra space between letters in mm
+  kerning: boolean;
+  arcRadius: number; // mm; 0 keeps the baseline straight, positive arches it up, negative bends it down
+  mirror: boolean;
+  weldOverlap?: number; // mm; when set, letters are pulled together until their outlines overlap this much
+}
+
+export interface TextOutline {
+  pathData: string; // all glyphs, in mm with y pointing down
+  width: number;
+  height: number;
+  baseline: PathPoint[]; // the line the glyphs stand on, placed like them
+  svg: string;
+}
+
+/**
+ * Decimal places kept for coordinates written into the SVG
+ */
+const COORDINATE_PRECISION = 3;
+
+/**
+ * Advance (in em) used for characters the font has no glyph for
+ */
+const MISSING_GLYPH_ADVANCE = 0.5;
+
+/**
+ * Segments used to sample a curved baseline
+ */
+const BASELINE_SEGMENTS = 32;
+
+/**
+ * Height (in mm) of the horizontal bands glyph profiles are measured in
+ */
+const PROFILE_BAND = 0.5;
+
+/**
+ * Points sampled along each curve when measuring a glyph profile
+ */
+const CURVE_SAMPLES = 8;
+
+/**
+ * Leftmost and rightmost extent of a glyph in each horizontal band, in
+ * font units
+ */
+type GlyphProfile = Map<number, { left: number; right: number }>;
+
+/**
+ * Stamps press their relief into the dough face down, so their text has to
+ * be mirrored to read correctly on the cookie
+ */
+export function shouldMirrorText(params: CookieCutterParams): boolean {
+  return params.mode === 'stamp';
+}
+
+/**
+ * Text settings for a new design, mirrored when it will be a stamp
+ */
+export function getDefaultTextOptions(params: CookieCutterParams): TextOutlineOptions {
+  return {
+    text: '',
+    letterHeight: 20,
+    letterSpacing: 0,
+    kerning: true,
+    arcRadius: 0,
+    mirror: shouldMirrorText(params),
+  };
+}
+
+/**
+ * Points of a command, end point last
+ */
+function commandPoints(command: GlyphCommand): PathPoint[] {
+  switch (command.type) {
+    case 'M':
+    case 'L':
+      return [{ x: command.x, y: command.y }];
+    case 'Q':
+      return [{ x: command.x1, y: command.y1 }, { x: command.x, y: command.y }];
+    case 'C':
+      return [{ x: command.x1, y: command.y1 }, { x: command.x2, y: command.y2 }, { x: command.x, y: command.y }];
+    case 'Z':
+      return [];
+  }
+}
+
+/**
+ * Measure how far a glyph reaches left and right in bands `band` font
+ * units high. Curves are sampled and every edge is split finely enough to
+ * mark each band it crosses.
+ */
+function measureGlyphProfile(glyph: GlyphOutline, band: number): GlyphProfile {
+  const profile: GlyphProfile = new Map();
+  const mark = (p: PathPoint) => {
+    const key = Math.floor(p.y / band);
+    const extent = profile.get(key);
+    if (extent) {
+      extent.left = Math.min(extent.left, p.x);
+      extent.right = Math.max(extent.right, p.x);
+    } else {
+      profile.set(key, { left: p.x, right: p.x });
+    }
+  };
+  const edge = (from: PathPoint, to: PathPoint) => {
+    const steps = Math.ceil(Math.abs(to.y - from.y) / band) + 1;
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      mark({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+    }
+  };
+
+  let start: PathPoint | null = null;
+  let current: PathPoint | null = null;
+  for (const command of glyph.commands) {
+    if (command.type === 'M') {
+      start = current = { x: command.x, y: command.y };
+      mark(current);
+    } else if (command.type === 'Z') {
+      if (current && start) edge(current, start);
+      current = start;
+    } else if (current) {
+      const from = current;
+      const end = { x: command.x, y: command.y };
+      const at = (t: number): PathPoint => {
+        const mt = 1 - t;
+        switch (command.type) {
+          case 'Q':
+            return {
+              x: mt * mt * from.x + 2 * mt * t * command.x1 + t * t * end.x,
+              y: mt * mt * from.y + 2 * mt * t * command.y1 + t * t * end.y,
+            };
+          case 'C':
+            return {
+              x: mt ** 3 * from.x + 3 * mt * mt * t * command.x1 + 3 * mt * t * t * command.x2 + t ** 3 * end.x,
+              y: mt ** 3 * from.y + 3 * mt * mt * t * command.y1 + 3 * mt * t * t * command.y2 + t ** 3 * end.y,
+            };
+          default:
+            return { x: from.x + (end.x - from.x) * t, y: from.y + (end.y - from.y) * t };
+        }
+      };
+
+      const samples = command.type === 'L' ? 1 : CURVE_SAMPLES;
+      let previous = from;
+      for (let k = 1; k <= samples; k++) {
+        const point = at(k / samples);
+        edge(previous, point);
+        previous = point;
+      }
+      current = end;
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * How far right of the left glyph's origin the right glyph's origin has to
+ * go for their outlines to just touch, or null when no band holds both
+ */
+function measureTouchDistance(left: GlyphProfile, right: GlyphProfile): number | null {
+  let distance: number | null = null;
+  for (const [key, extent] of right) {
+    const other = left.get(key);
+    if (other) {
+      distance = Math.max(distance ?? -Infinity, other.right - extent.left);
+    }
+  }
+  return distance;
+}
+
+/**
+ * Lay a line of text out with kerning and letter spacing, optionally along
+ * an arc, and return its glyph outlines as SVG path data in millimetres.
+ * The text is centred on the origin of its baseline.
+ *
+ * With `weldOverlap` set, kerning and letter spacing give way to the
+ * outlines themselves: each letter is pulled against the one before it,
+ * measured band by band, until they overlap by that much.
+ *
+ * On an arc every glyph is turned to stand on the circle, and the glyph
+ * centres keep their straight-line spacing as distances along the
+ * baseline. Affine maps keep Bézier curves exact, so control points are
+ * transformed with the rest.
+ */
+export function layoutText(font: TextFont, options: TextOutlineOptions): TextOutline {
+  const chars = [...options.text.replace(/\s+/g, ' ').trim()];
+  if (chars.length === 0) {
+    throw new Error('Enter some text');
+  }
+
+  const scale = options.letterHeight / font.capHeight;
+
+  // Pen positions along a straight baseline, in mm. Welded letters are
+  // placed against the letter before them; spaces keep their advance.
+  const placed: { char: string; x: number; advance: number }[] = [];
+  let pen = 0;
+  let previous: { x: number; profile: GlyphProfile } | null = null;
+  const weldOverlap = options.weldOverlap;
+  chars.forEach((char, i) => {
+    const glyph = font.getGlyph(char);
+    const advance = (glyph ? glyph.advance : font.unitsPerEm * MISSING_GLYPH_ADVANCE) * scale;
+    const profile = weldOverlap !== undefined && glyph && glyph.commands.length > 0
+      ? measureGlyphProfile(glyph, PROFILE_BAND / scale)
+      : null;
+
+    let x = pen;
+    if (profile && previous && weldOverlap !== undefined) {
+      const distance = measureTouchDistance(previous.profile, profile);
+      if (distance !== null) x = previous.x + distance * scale - weldOverlap;
+    }
+    placed.push({ char, x, advance });
+    previous = profile ? { x, profile } : null;
+
+    pen = x + advance;
+    if (i < chars.length - 1) {
+      if (options.kerning) pen += font.getKerning(char, chars[i + 1]) * scale;
+      pen += options.letterSpacing;
+    }
+  });
+  const lineWidth = pen;
+
+  const round = (value: number) => +value.toFixed(COORDINATE_PRECISION);
+  const parts: string[] = [];
+  const points: PathPoint[] = [];
+
+  for (const { char, x, advance } of placed) {
+    const glyph = font.getGlyph(char);
+    if (!glyph || glyph.commands.length === 0) continue;
+
+    // Glyph frame: origin at the centre of its advance on the baseline
+    const center = x + advance / 2 - lineWidth / 2;
+    const angle = options.arcRadius !== 0 ? center / options.arcRadius : 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    const place = (p: PathPoint): PathPoint => {
+      const u = p.x * scale - advance / 2;
+      const v = p.y * scale;
+      let px = center + u;
+      let py = v;
+      if (options.arcRadius !== 0) {
+        const r = options.arcRadius;
+        px = (r + v) * sin + u * cos;
+        py = (r + v) * cos - u * sin - r;
+      }
+      // SVG y points down
+      const placedPoint = { x: options.mirror ? -px : px, y: -py };
+      points.push(placedPoint);
+      return placedPoint;
+    };
+
+    for (const command of glyph.commands) {
+      const [a, b, c] = commandPoints(command).map(place);
+      switch (command.type) {
+        case 'M':
+        case 'L':
+          parts.push(`${command.type} ${round(a.x)} ${round(a.y)}`);
+          break;
+        case 'Q':
+          parts.push(`Q ${round(a.x)} ${round(a.y)} ${round(b.x)} ${round(b.y)}`);
+          break;
+        case 'C':
+          parts.push(`C ${round(a.x)} ${round(a.y)} ${round(b.x)} ${round(b.y)} ${round(c.x)} ${round(c.y)}`);
+          break;
+        case 'Z':
+          parts.push('Z');
+          break;
+      }
+    }
+  }
+
+  if (points.length === 0) {
+    throw new Error('The font has no outlines for this text');
+  }
+
+  // Sample the baseline across the whole line
+  const r = options.arcRadius;
+  const steps = r !== 0 ? BASELINE_SEGMENTS : 1;
+  const baseline = Array.from({ length: steps + 1 }, (_, k) => {
+    const s = (k / steps - 0.5) * lineWidth;
+    const px = r !== 0 ? r * Math.sin(s / r) : s;
+    const py = r !== 0 ? r * Math.cos(s / r) - r : 0;
+    return { x: options.mirror ? -px : px, y: -py };
+  });
+
+  const bounds = getPathsBounds([points]);
+  const pathData = parts.join(' ');
+  const viewBox = [bounds.minX, bounds.minY, bounds.width, bounds.height].map(round).join(' ');
+
+  return {
+    pathData,
+    width: bounds.width,
+    height: bounds.height,
+    baseline,
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${round(bounds.width)}mm" height="${round(bounds.height)}mm" ` +
+      `viewBox="${viewBox}">\n  <path d="${pathData}" fill="black" fill-rule="nonzero"/>\n</svg>`,
+  };
+}
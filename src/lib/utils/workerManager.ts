@@ -1,62 +1,251 @@
 /**
  * Worker Manager for handling Web Worker operations
  */
+import type { Mesh, Group } from 'three';
+import type { CookieCutterParams } from '../types/CookieCutter';
+import type { BatchItem, BatchLayout, BatchResult } from './batchProcessor';
+import type { SliceLayer, SlicingOptions } from './slicer';
+import type { PrinterProfile } from './advancedExporter';
+import type { PrintEstimate } from './printOptimizer';
+import type { MeshValidationReport } from './meshRepair';
+import type { TracingImage, TracingOptions, TracingResult } from './imageTracing';
+import type {
+  WorkerTaskName,
+  WorkerTaskArgs,
+  WorkerTaskResult,
+  WorkerRequest,
+  WorkerResponse,
+  ModelExportRequest,
+  ModelExportResult,
+} from './workerTasks';
+import { serializeSVG } from './svgParser';
+import { serializeObject, deserializeObject, deserializeSliceLayers } from './objectTransfer';
+import { TaskCancelledError, type TaskOptions } from './taskControl';
 
-let imageWorker: Worker | null = null;
+/**
+ * A task waiting on the worker. Results arrive as untyped message data;
+ * `runTask` narrows them to the task's result type.
+ */
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: TaskOptions['onProgress'];
+  cleanup: () => void;
+}
+
+let geometryWorker: Worker | null = null;
+
+const pendingGeometryRequests = new Map<number, PendingRequest>();
+let nextRequestId = 1;
 
 /**
- * Initialize image processing worker
+ * Initialize geometry worker
  */
-function getImageWorker(): Worker {
-  if (!imageWorker) {
-    imageWorker = new Worker(
-      new URL('../../workers/imageProcessor.worker.ts', import.meta.url),
+function getGeometryWorker(): Worker {
+  if (!geometryWorker) {
+    geometryWorker = new Worker(
+      new URL('../../workers/geometry.worker.ts', import.meta.url),
       { type: 'module' }
     );
+    geometryWorker.addEventListener('message', handleGeometryResponse);
+    geometryWorker.addEventListener('error', handleGeometryCrash);
   }
-  return imageWorker;
+  return geometryWorker;
 }
 
 /**
- * Vectorize image using Web Worker
+ * Route a geometry worker message to the request it belongs to
  */
-export function vectorizeImageInWorker(
-  imageData: ImageData,
-  options: any
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const worker = getImageWorker();
+function handleGeometryResponse(e: MessageEvent<WorkerResponse>) {
+  const response = e.data;
+  const request = pendingGeometryRequests.get(response.id);
+  if (!request) return;
+
+  if (response.type === 'progress') {
+    request.onProgress?.(response.progress, response.message);
+    return;
+  }
+
+  pendingGeometryRequests.delete(response.id);
+  request.cleanup();
+  if (response.type === 'result') {
+    request.resolve(response.result);
+  } else {
+    request.reject(response.cancelled ? new TaskCancelledError() : new Error(response.error));
+  }
+}
+
+/**
+ * Fail every open request when the worker dies, and start a fresh one next time
+ */
+function handleGeometryCrash(event: ErrorEvent) {
+  const error = new Error(event.message || 'Geometry worker crashed');
+  for (const request of pendingGeometryRequests.values()) {
+    request.cleanup();
+    request.reject(error);
+  }
+  pendingGeometryRequests.clear();
 
-    const messageHandler = (e: MessageEvent) => {
-      const { type, data, error } = e.data;
+  geometryWorker?.terminate();
+  geometryWorker = null;
+}
 
-      if (type === 'success') {
-        resolve(data);
-      } else if (type === 'error') {
-        reject(new Error(error));
-      }
+/**
+ * Run a task on the geometry worker.
+ *
+ * Every request gets its own id, so any number can be in flight at once.
+ * Progress arrives through `options.onProgress`; aborting `options.signal`
+ * cancels the task in the worker and rejects with a TaskCancelledError.
+ * Buffers in `transfer` are moved to the worker instead of copied. Without
+ * Worker support the task runs on the main thread.
+ */
+export function runTask<K extends WorkerTaskName>(
+  task: K,
+  args: WorkerTaskArgs<K>,
+  options: TaskOptions = {},
+  transfer: Transferable[] = []
+): Promise<WorkerTaskResult<K>> {
+  if (options.signal?.aborted) {
+    return Promise.reject(new TaskCancelledError());
+  }
+  if (typeof Worker === 'undefined') {
+    return runTaskInline(task, args, options);
+  }
 
-      // Remove listener after handling
-      worker.removeEventListener('message', messageHandler);
-    };
+  const worker = getGeometryWorker();
+  const id = nextRequestId++;
 
-    worker.addEventListener('message', messageHandler);
+  return new Promise((resolve, reject) => {
+    const cancel = () => worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+    options.signal?.addEventListener('abort', cancel, { once: true });
 
-    // Send message to worker
-    worker.postMessage({
-      type: 'vectorize',
-      imageData,
-      options
+    pendingGeometryRequests.set(id, {
+      // The worker ran `task`, so its result has that task's type
+      resolve: result => resolve(result as WorkerTaskResult<K>),
+      reject,
+      onProgress: options.onProgress,
+      cleanup: () => options.signal?.removeEventListener('abort', cancel),
     });
+
+    worker.postMessage({ type: 'run', id, task, args } satisfies WorkerRequest, transfer);
   });
 }
 
+/**
+ * Main-thread fallback for environments without Web Workers
+ */
+async function runTaskInline<K extends WorkerTaskName>(
+  task: K,
+  args: WorkerTaskArgs<K>,
+  options: TaskOptions
+): Promise<WorkerTaskResult<K>> {
+  const { workerTasks } = await import('./workerTasks');
+  const run = workerTasks[task] as (...args: unknown[]) => Promise<WorkerTaskResult<K>>;
+  return run(...args, options);
+}
+
+/**
+ * Generate a cutter or stamp (by `params.mode`) in the geometry worker
+ */
+export async function generateModelInWorker(
+  svgString: string,
+  params: CookieCutterParams,
+  options: TaskOptions = {}
+): Promise<Group> {
+  const model = await runTask('generateModel', [serializeSVG(svgString), params], options);
+  return deserializeObject(model) as Group;
+}
+
+/**
+ * Generate and lay out a batch in the geometry worker
+ */
+export async function createBatchInWorker(
+  items: BatchItem[],
+  layout: BatchLayout,
+  buildPlateSize: number,
+  options: TaskOptions = {}
+): Promise<BatchResult> {
+  const svgs = [...new Set(items.map(item => item.svgData))].map(serializeSVG);
+  const result = await runTask('createBatch', [items, svgs, layout, buildPlateSize], options);
+  return {
+    mesh: deserializeObject(result.mesh) as Group,
+    items: result.items,
+    failed: result.failed,
+    layout,
+    totalDimensions: result.totalDimensions,
+  };
+}
+
+/**
+ * Slice a mesh into preview layers in the geometry worker
+ */
+export async function sliceMeshInWorker(
+  object: Mesh | Group,
+  slicing: SlicingOptions,
+  options: TaskOptions = {}
+): Promise<SliceLayer[]> {
+  const layers = await runTask('sliceMesh', [serializeObject(object), slicing], options);
+  return deserializeSliceLayers(layers);
+}
+
+/**
+ * Repair and serialize a model into file data in the geometry worker
+ */
+export function exportModelInWorker(
+  object: Mesh | Group,
+  request: ModelExportRequest,
+  options: TaskOptions = {}
+): Promise<ModelExportResult> {
+  return runTask('exportModel', [serializeObject(object), request], options);
+}
+
+/**
+ * Check a model for holes, non-manifold edges and overlapping shells in the
+ * geometry worker
+ */
+export function validateMeshInWorker(
+  object: Mesh | Group,
+  options: TaskOptions = {}
+): Promise<MeshValidationReport> {
+  return runTask('validateMesh', [serializeObject(object)], options);
+}
+
+/**
+ * Estimate filament use and print time from the model's toolpaths in the
+ * geometry worker
+ */
+export function estimatePrintInWorker(
+  object: Mesh | Group,
+  profile: PrinterProfile,
+  params: CookieCutterParams,
+  options: TaskOptions = {}
+): Promise<PrintEstimate> {
+  return runTask('estimatePrint', [serializeObject(object), profile, params], options);
+}
+
+/**
+ * Trace an image into outlines in the geometry worker. The pixel buffer is
+ * copied, so the caller keeps its image.
+ */
+export function traceImageInWorker(
+  image: TracingImage,
+  tracing: TracingOptions,
+  options: TaskOptions = {}
+): Promise<TracingResult> {
+  return runTask('traceImage', [image, tracing], options);
+}
+
 /**
  * Cleanup workers
  */
 export function terminateWorkers() {
-  if (imageWorker) {
-    imageWorker.terminate();
-    imageWorker = null;
+  if (geometryWorker) {
+    geometryWorker.terminate();
+    geometryWorker = null;
+  }
+  for (const request of pendingGeometryRequests.values()) {
+    request.cleanup();
+    request.reject(new TaskCancelledError());
   }
+  pendingGeometryRequests.clear();
 }
@@ -0,0 +1,184 @@
+import type { Mesh, Group } from 'three';
+import type { CookieCutterParams } from '../types/CookieCutter';
+import { generateCookieCutter } from './cookieCutterGenerator';
+import { generateStamp } from './stampGenerator';
+import { createBatch, type BatchItem, type BatchLayout, type BatchFailure } from './batchProcessor';
+import { sliceMesh, type SlicingOptions } from './slicer';
+import { serializeSTL } from './stlExporter';
+import { serializeOBJ, build3MFPackage, generateGCODE, type PrinterProfile } from './advancedExporter';
+import { repairMesh, repairItems, validateMesh, type MeshValidationReport } from './meshRepair';
+import { estimatePrint, type PrintEstimate } from './printOptimizer';
+import { isPrintedUpsideDown, orientForPrint } from './bedTransform';
+import { deserializeSVG, holdSVGPaths, type SerializedSVG } from './svgParser';
+import { traceImage, type TracingImage, type TracingOptions, type TracingResult } from './imageTracing';
+import {
+  serializeObject,
+  deserializeObject,
+  serializeSliceLayers,
+  type SerializedObject,
+  type SerializedSliceLayer,
+} from './objectTransfer';
+import { subTask, type TaskOptions } from './taskControl';
+
+/**
+ * What the model export task should produce
+ */
+export interface ModelExportRequest {
+  format: 'stl' | 'obj' | '3mf' | 'gcode';
+  repair: 'none' | 'merge' | 'items'; // merge into one solid, or repair batch items one by one
+  binary: boolean; // STL only
+  params: CookieCutterParams;
+  profile?: PrinterProfile; // G-code only
+}
+
+export interface ModelExportResult {
+  data: string | Uint8Array<ArrayBuffer>;
+  before: MeshValidationReport | null;
+  after: MeshValidationReport | null;
+}
+
+/**
+ * Tasks the geometry worker runs. Each takes plain, cloneable arguments
+ * followed by the task options and resolves to plain data.
+ */
+export const workerTasks = {
+  async generateModel(
+    svg: SerializedSVG,
+    params: CookieCutterParams,
+    options: TaskOptions
+  ): Promise<SerializedObject> {
+    const release = holdSVGPaths([svg.source]);
+    try {
+      deserializeSVG(svg);
+      const model = params.mode === 'stamp'
+        ? await generateStamp(svg.source, params, options)
+        : await generateCookieCutter(svg.source, params, options);
+      return serializeObject(model);
+    } finally {
+      release();
+    }
+  },
+
+  async createBatch(
+    items: BatchItem[],
+    svgs: SerializedSVG[],
+    layout: BatchLayout,
+    buildPlateSize: number,
+    options: TaskOptions
+  ): Promise<{
+    mesh: SerializedObject;
+    items: BatchItem[];
+    failed: BatchFailure[];
+    totalDimensions: { width: number; height: number };
+  }> {
+    // Every design stays parsed until the last item is generated
+    const release = holdSVGPaths(svgs.map(svg => svg.source));
+    try {
+      svgs.forEach(deserializeSVG);
+      const result = await createBatch(items, layout, buildPlateSize, options);
+      return {
+        mesh: serializeObject(result.mesh),
+        items: result.items,
+        failed: result.failed,
+        totalDimensions: result.totalDimensions,
+      };
+    } finally {
+      release();
+    }
+  },
+
+  async sliceMesh(
+    object: SerializedObject,
+    slicing: SlicingOptions,
+    options: TaskOptions
+  ): Promise<SerializedSliceLayer[]> {
+    const layers = await sliceMesh(deserializeObject(object) as Mesh | Group, slicing, options);
+    return serializeSliceLayers(layers);
+  },
+
+  async exportModel(
+    object: SerializedObject,
+    request: ModelExportRequest,
+    options: TaskOptions
+  ): Promise<ModelExportResult> {
+    let model = deserializeObject(object) as Mesh | Group;
+    let before: MeshValidationReport | null = null;
+    let after: MeshValidationReport | null = null;
+
+    if (request.repair !== 'none') {
+      options.onProgress?.(0, 'Repairing mesh');
+      const repaired = request.repair === 'items' ? repairItems(model) : repairMesh(model);
+      ({ mesh: model, before, after } = repaired);
+    }
+
+    options.onProgress?.(0.2, 'Writing file');
+    const upsideDown = isPrintedUpsideDown(request.params);
+    let data: string | Uint8Array<ArrayBuffer>;
+    switch (request.format) {
+      case 'stl':
+        data = serializeSTL(orientForPrint(model, upsideDown), request.binary);
+        break;
+      case 'obj':
+        data = serializeOBJ(orientForPrint(model, upsideDown));
+        break;
+      case '3mf':
+        data = await build3MFPackage(model, request.params);
+        break;
+      case 'gcode':
+        if (!request.profile) throw new Error('G-code export needs a printer profile');
+        data = await generateGCODE(model, request.profile, request.params, subTask(options, 0.2, 1));
+        break;
+    }
+
+    return { data, before, after };
+  },
+
+  async validateMesh(object: SerializedObject, options: TaskOptions): Promise<MeshValidationReport> {
+    options.onProgress?.(0, 'Checking mesh');
+    return validateMesh(deserializeObject(object));
+  },
+
+  async estimatePrint(
+    object: SerializedObject,
+    profile: PrinterProfile,
+    params: CookieCutterParams,
+    options: TaskOptions
+  ): Promise<PrintEstimate> {
+    return estimatePrint(deserializeObject(object) as Mesh | Group, profile, params, options);
+  },
+
+  async traceImage(
+    image: TracingImage,
+    tracing: TracingOptions,
+    options: TaskOptions
+  ): Promise<TracingResult> {
+    return traceImage(image, tracing, options);
+  },
+};
+
+export type WorkerTasks = typeof workerTasks;
+
+export type WorkerTaskName = keyof WorkerTasks;
+
+/**
+ * Arguments of a task, without the trailing task options
+ */
+export type WorkerTaskArgs<K extends WorkerTaskName> =
+  Parameters<WorkerTasks[K]> extends [...infer Args, TaskOptions] ? Args : never;
+
+export type WorkerTaskResult<K extends WorkerTaskName> = Awaited<ReturnType<WorkerTasks[K]>>;
+
+/**
+ * Messages from the main thread to the worker
+ */
+export type WorkerRequest =
+  | { type: 'run'; id: number; task: WorkerTaskName; args: unknown[] }
+  | { type: 'cancel'; id: number };
+
+/**
+ * Messages from the worker to the main thread, tagged with the request id
+ */
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number; message?: string }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: string; cancelled: boolean };
@@ -0,0 +1,46 @@
+import { workerTasks, type WorkerRequest, type WorkerResponse } from '../lib/utils/workerTasks';
+import { collectTransferables } from '../lib/utils/objectTransfer';
+import { TaskCancelledError } from '../lib/utils/taskControl';
+
+// Abort controllers of the requests still running
+const running = new Map<number, AbortController>();
+
+function post(response: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+// Listen for messages from main thread
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, task, args } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+
+  try {
+    const run = workerTasks[task] as (...args: unknown[]) => Promise<unknown>;
+    const result = await run(...args, {
+      signal: controller.signal,
+      onProgress: (progress: number, message?: string) => post({ type: 'progress', id, progress, message }),
+    });
+
+    // Hand typed array buffers over instead of copying them
+    post({ type: 'result', id, result }, collectTransferables(result));
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      cancelled: error instanceof TaskCancelledError,
+    });
+  } finally {
+    running.delete(id);
+  }
+};
+
+export {};